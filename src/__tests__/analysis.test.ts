@@ -0,0 +1,681 @@
+import { calculateMerecWeights } from "../merec";
+import { analyzeMerecSensitivity } from "../analysis/sensitivity";
+import { simulateMerecWeights } from "../analysis/monteCarlo";
+import { analyzeAlternativeInfluence } from "../analysis/influence";
+import { testRankReversal } from "../analysis/rankReversal";
+import { analyzeRankAcceptability } from "../analysis/smaa";
+import { calculateTopsisRanking } from "../ranking/topsis";
+import { calculateWaspasRanking } from "../ranking/waspas";
+import { calculateEdasRanking } from "../ranking/edas";
+import { summarizeCriteriaWeights } from "../calculation/mer06-bobotAkhir";
+import {
+  MatrixValue,
+  MerecDiagnostic,
+  NoiseDistribution,
+  RankingMethod,
+  RankReversalManipulation,
+  RankReversalOptions,
+  SmaaOptions,
+  WeightSampling,
+} from "../types";
+import { PHONES, PHONE_TYPES, catchError } from "./helpers";
+
+describe("Sensitivity Analysis", () => {
+  it("should perturb the spread of every column and re-run MEREC", () => {
+    const result = analyzeMerecSensitivity(PHONES, PHONE_TYPES, {
+      perturbations: [10, -10],
+    });
+
+    expect(result.mode).toBe("column");
+    expect(result.perturbations).toEqual([-10, 10]);
+    expect(result.baseWeights).toEqual(
+      calculateMerecWeights(PHONES, PHONE_TYPES)
+    );
+    expect(result.inputs).toHaveLength(4);
+
+    // Price spread +10% around the minimum of 200
+    const stretched = PHONES.map((row) => [
+      200 + (row[0] - 200) * 1.1,
+      ...row.slice(1),
+    ]);
+    const level = result.inputs[0].levels[1];
+    expect(level.perturbation).toBe(10);
+    level.weights.forEach((w, j) =>
+      expect(w).toBeCloseTo(
+        calculateMerecWeights(stretched, PHONE_TYPES)[j],
+        12
+      )
+    );
+  });
+
+  it("should compute the elasticity of every weight", () => {
+    const result = analyzeMerecSensitivity(PHONES, PHONE_TYPES, {
+      mode: "cell",
+      perturbations: [-5, 5],
+    });
+
+    expect(result.inputs).toHaveLength(20);
+    const input = result.inputs[6];
+    expect(input).toMatchObject({ alternativeIndex: 1, criterionIndex: 2 });
+
+    const perturbed = PHONES.map((row) => [...row]);
+    perturbed[1][2] = 8 * 1.05;
+    const weights = calculateMerecWeights(perturbed, PHONE_TYPES);
+    expect(input.levels[1].weights).toEqual(weights);
+
+    const expected = result.baseWeights.map(
+      (w, j) =>
+        ((input.levels[0].weights[j] - w) / w / -0.05 +
+          (weights[j] - w) / w / 0.05) /
+        2
+    );
+    input.elasticities.forEach((e, j) =>
+      expect(e).toBeCloseTo(expected[j], 12)
+    );
+  });
+
+  it("should report the smallest perturbations that change the criterion ranking", () => {
+    const result = analyzeMerecSensitivity(PHONES, PHONE_TYPES, {
+      perturbations: [-50, -20, -10, 10, 20, 50],
+    });
+
+    const summary = summarizeCriteriaWeights(result.baseWeights, []);
+    summary.forEach((item) => {
+      const j = Number(item.id.slice(1)) - 1;
+      expect(result.baseRanks[j]).toBe(item.ranking);
+    });
+
+    result.inputs.forEach((input) => {
+      const changed = input.levels.filter((level) => level.rankChanged);
+      const decreases = changed.filter((level) => level.perturbation < 0);
+      const increases = changed.filter((level) => level.perturbation > 0);
+
+      expect(input.rankChangeDecrease).toBe(
+        decreases.length > 0
+          ? Math.max(...decreases.map((level) => level.perturbation))
+          : null
+      );
+      expect(input.rankChangeIncrease).toBe(
+        increases.length > 0
+          ? Math.min(...increases.map((level) => level.perturbation))
+          : null
+      );
+    });
+
+    // Widening the quality spread by 10% makes it the most important criterion
+    expect(result.inputs[2].rankChangeIncrease).toBe(10);
+    expect(result.inputs[2].levels[3].ranks[2]).toBeLessThan(
+      result.baseRanks[2]
+    );
+  });
+
+  it("should skip missing cells and report only unperturbed diagnostics", () => {
+    const warnings: MerecDiagnostic[] = [];
+    const withGap = PHONES.map((row) => [...row] as (number | null)[]);
+    withGap[0][1] = null;
+
+    const result = analyzeMerecSensitivity(withGap, PHONE_TYPES, {
+      mode: "cell",
+      perturbations: [10],
+      missingValuePolicy: "mean",
+      logger: (d) => warnings.push(d),
+    });
+
+    expect(result.inputs).toHaveLength(19);
+    expect(warnings).toEqual(result.warnings);
+    expect(warnings.map((d) => d.code)).toEqual(["MISSING_VALUE_IMPUTED"]);
+  });
+
+  it("should reject invalid options", () => {
+    for (const perturbations of [[], [0], [-100], [NaN]]) {
+      expect(
+        catchError(() =>
+          analyzeMerecSensitivity(PHONES, PHONE_TYPES, { perturbations })
+        ).code
+      ).toBe("INVALID_OPTION");
+    }
+    expect(
+      catchError(() =>
+        analyzeMerecSensitivity(PHONES, PHONE_TYPES, {
+          mode: "row" as "cell",
+        })
+      ).code
+    ).toBe("INVALID_OPTION");
+  });
+});
+
+describe("Monte Carlo Simulation", () => {
+  const NOISE: NoiseDistribution = { type: "normal", standardDeviation: 0.05 };
+
+  it("should be reproducible with the same seed", () => {
+    const first = simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, {
+      iterations: 200,
+      seed: 7,
+    });
+    const second = simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, {
+      iterations: 200,
+      seed: 7,
+    });
+    const other = simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, {
+      iterations: 200,
+      seed: 8,
+    });
+
+    expect(second).toEqual(first);
+    expect(other.meanWeights).not.toEqual(first.meanWeights);
+  });
+
+  it("should summarize the distribution of every weight", () => {
+    const result = simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, {
+      iterations: 500,
+      confidenceLevel: 0.9,
+    });
+
+    expect(result).toMatchObject({
+      iterations: 500,
+      seed: 1,
+      confidenceLevel: 0.9,
+    });
+    expect(result.baseWeights).toEqual(
+      calculateMerecWeights(PHONES, PHONE_TYPES)
+    );
+    expect(result.meanWeights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(
+      1,
+      10
+    );
+
+    result.confidenceIntervals.forEach(([lower, upper], j) => {
+      expect(lower).toBeLessThan(result.meanWeights[j]);
+      expect(upper).toBeGreaterThan(result.meanWeights[j]);
+      expect(result.standardDeviations[j]).toBeGreaterThan(0);
+      expect(result.standardDeviations[j]).toBeLessThan(upper - lower);
+    });
+
+    // Every criterion holds exactly one rank per iteration and vice versa
+    result.rankProbabilities.forEach((probabilities) =>
+      expect(probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10)
+    );
+    [0, 1, 2, 3].forEach((r) =>
+      expect(
+        result.rankProbabilities.reduce(
+          (sum, probabilities) => sum + probabilities[r],
+          0
+        )
+      ).toBeCloseTo(1, 10)
+    );
+  });
+
+  it("should reproduce MEREC when the noise is zero", () => {
+    const result = simulateMerecWeights(
+      PHONES,
+      PHONE_TYPES,
+      [
+        { type: "uniform", halfWidth: 0 },
+        { type: "triangular", lower: 0, mode: 0, upper: 0 },
+        null,
+        { type: "normal", standardDeviation: 0, scale: "absolute" },
+      ],
+      { iterations: 10 }
+    );
+
+    result.meanWeights.forEach((w, j) =>
+      expect(w).toBeCloseTo(result.baseWeights[j], 12)
+    );
+    result.standardDeviations.forEach((sd) => expect(sd).toBeCloseTo(0, 12));
+    expect(result.rankProbabilities[3]).toEqual([1, 0, 0, 0]);
+  });
+
+  it("should only perturb cells with noise", () => {
+    const cellNoise = PHONES.map((row, i) =>
+      row.map((_, j): NoiseDistribution | null =>
+        i === 0 && j === 0
+          ? { type: "triangular", lower: -0.2, mode: 0.1, upper: 0.3 }
+          : null
+      )
+    );
+    const result = simulateMerecWeights(PHONES, PHONE_TYPES, cellNoise, {
+      iterations: 100,
+    });
+
+    expect(result.standardDeviations.every((sd) => sd > 0)).toBe(true);
+  });
+
+  it("should reject invalid noise and options", () => {
+    const invalid = [
+      () => simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, { iterations: 1 }),
+      () =>
+        simulateMerecWeights(PHONES, PHONE_TYPES, NOISE, {
+          confidenceLevel: 1.5,
+        }),
+      () => simulateMerecWeights(PHONES, PHONE_TYPES, [NOISE]),
+      () => simulateMerecWeights(PHONES, PHONE_TYPES, [[NOISE]]),
+      () =>
+        simulateMerecWeights(PHONES, PHONE_TYPES, {
+          type: "normal",
+          standardDeviation: -1,
+        }),
+      () =>
+        simulateMerecWeights(PHONES, PHONE_TYPES, {
+          type: "triangular",
+          lower: 0.1,
+          mode: 0,
+          upper: 0.2,
+        }),
+    ];
+
+    invalid.forEach((fn) => expect(catchError(fn).code).toBe("INVALID_OPTION"));
+  });
+});
+
+describe("Alternative Influence", () => {
+  it("should recompute the weights without each alternative", () => {
+    const result = analyzeAlternativeInfluence(PHONES, PHONE_TYPES);
+
+    expect(result.baseWeights).toEqual(
+      calculateMerecWeights(PHONES, PHONE_TYPES)
+    );
+    expect(result.alternatives).toHaveLength(5);
+
+    result.alternatives.forEach((alternative, i) => {
+      const weights = calculateMerecWeights(
+        PHONES.filter((_, k) => k !== i),
+        PHONE_TYPES
+      );
+
+      expect(alternative).toMatchObject({
+        alternativeIndex: i,
+        alternativeId: `A${i + 1}`,
+        weights,
+      });
+      alternative.influence.forEach((d, j) =>
+        expect(d).toBeCloseTo(weights[j] - result.baseWeights[j], 15)
+      );
+      expect(alternative.totalInfluence).toBeCloseTo(
+        alternative.influence.reduce((sum, d) => sum + Math.abs(d), 0) / 2,
+        15
+      );
+    });
+  });
+
+  it("should flag alternatives whose removal changes the criterion ranking", () => {
+    const result = analyzeAlternativeInfluence(PHONES, PHONE_TYPES);
+
+    expect(result.baseRanks).toEqual([4, 2, 3, 1]);
+    expect(result.rankChangingAlternatives).toEqual([0, 4]);
+    expect(result.alternatives[4].ranks).toEqual([2, 1, 3, 4]);
+    expect(result.alternatives[1].rankChanged).toBe(false);
+  });
+
+  it("should expose an extreme alternative as the most influential", () => {
+    const withOutlier = [...PHONES, [2000, 16, 12, 4]];
+    const result = analyzeAlternativeInfluence(withOutlier, PHONE_TYPES);
+    const influences = result.alternatives.map((a) => a.totalInfluence);
+
+    expect(Math.max(...influences)).toBe(influences[5]);
+    // Without the outlier the price weight drops back
+    expect(result.alternatives[5].influence[0]).toBeLessThan(0);
+  });
+
+  it("should compute jackknife standard errors", () => {
+    const result = analyzeAlternativeInfluence(PHONES, PHONE_TYPES);
+    const m = PHONES.length;
+
+    result.standardErrors.forEach((se, j) => {
+      const values = result.alternatives.map((a) => a.weights[j]);
+      const mean = values.reduce((sum, w) => sum + w, 0) / m;
+      const expected = Math.sqrt(
+        ((m - 1) / m) * values.reduce((sum, w) => sum + (w - mean) ** 2, 0)
+      );
+      expect(se).toBeCloseTo(expected, 15);
+    });
+  });
+
+  it("should require at least two alternatives", () => {
+    const error = catchError(() =>
+      analyzeAlternativeInfluence([[1, 2]], ["benefit", "cost"])
+    );
+
+    expect(error.code).toBe("EMPTY_ALTERNATIVES");
+    expect(error.context).toEqual({ expected: 2, actual: 1 });
+  });
+});
+
+describe("Rank Reversal Test", () => {
+  it("should report rank reversals and the manipulation causing them", () => {
+    const result = testRankReversal(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking
+    );
+
+    expect(result.baseRanks).toEqual(
+      calculateTopsisRanking(PHONES, PHONE_TYPES).ranks
+    );
+    // 5 dominated copies, 5 duplicates and 4 non-optimal removals
+    expect(result.scenarios).toHaveLength(14);
+
+    const duplicate = result.scenarios.find(
+      (s) => s.manipulation === "add-duplicate" && s.alternativeIndex === 0
+    );
+    expect(duplicate?.ranks).toEqual(
+      calculateTopsisRanking([...PHONES, PHONES[0]], PHONE_TYPES).ranks.slice(
+        0,
+        5
+      )
+    );
+    expect(duplicate?.reversals).toEqual([{ better: 0, worse: 3 }]);
+    expect(result.reversedScenarios).toContain(duplicate);
+    expect(result.reversalRate).toBeCloseTo(
+      result.reversedScenarios.length / 14,
+      15
+    );
+  });
+
+  it("should remove every non-optimal alternative in turn", () => {
+    const result = testRankReversal(PHONES, PHONE_TYPES, calculateEdasRanking, {
+      manipulations: ["remove-non-optimal"],
+    });
+    const best = result.baseRanks.indexOf(1);
+
+    expect(result.scenarios.map((s) => s.alternativeIndex)).toEqual(
+      [0, 1, 2, 3, 4].filter((i) => i !== best)
+    );
+    result.scenarios.forEach((s) => {
+      expect(s.ranks[s.alternativeIndex]).toBeNull();
+      expect(s.ranks.filter((r) => r !== null)).toEqual(
+        calculateEdasRanking(
+          PHONES.filter((_, k) => k !== s.alternativeIndex),
+          PHONE_TYPES
+        ).ranks
+      );
+    });
+  });
+
+  it("should append copies made worse on every criterion", () => {
+    const matrices: MatrixValue[][][] = [];
+    const spy: RankingMethod = (matrix, criteriaTypes, options) => {
+      matrices.push(matrix);
+      return calculateWaspasRanking(matrix, criteriaTypes, options);
+    };
+
+    testRankReversal(
+      [
+        [250, 16, 5],
+        [200, 0, 3],
+      ],
+      ["cost", "benefit", { type: "target", target: 4 }],
+      spy,
+      { manipulations: ["add-dominated"], dominanceMargin: 0.2 }
+    );
+
+    expect(matrices).toHaveLength(3);
+    expect(matrices[1][2]).toEqual([300, 12.8, 6]);
+    expect(matrices[2][2]).toEqual([240, -0.2, 2.4]);
+  });
+
+  it("should keep the copies strictly dominated in the ranked matrix", () => {
+    const runs: { matrix: MatrixValue[][]; ranks: number[] }[] = [];
+    const spy: RankingMethod = (matrix, criteriaTypes, options) => {
+      const result = calculateTopsisRanking(matrix, criteriaTypes, options);
+      runs.push({ matrix, ranks: result.ranks });
+      return result;
+    };
+
+    testRankReversal(
+      [
+        [250, 0, 22],
+        [200, 16, 25],
+        [300, 8, 21.5],
+      ],
+      [
+        "cost",
+        "benefit",
+        { type: "target", target: 22, acceptableRange: [21, 23] },
+      ],
+      spy,
+      { manipulations: ["add-dominated"] }
+    );
+
+    // In-range target values move beyond the acceptable range
+    expect(runs[1].matrix[3][2]).toBe(23 + 2.2);
+    expect(runs[3].matrix[3][2]).toBe(21 - 2.15);
+    // A benefit value of 0 becomes -0.1, still worse after the conversion
+    expect(runs[1].matrix[3][1]).toBe(-0.1);
+    runs.slice(1).forEach(({ ranks }, i) => {
+      expect(ranks[3]).toBeGreaterThan(ranks[i]);
+    });
+  });
+
+  it("should find no reversal for additions under fixed weights", () => {
+    const result = testRankReversal(
+      PHONES,
+      PHONE_TYPES,
+      (matrix, criteriaTypes, options) =>
+        calculateWaspasRanking(matrix, criteriaTypes, {
+          ...options,
+          lambda: 1,
+        }),
+      {
+        weights: [0.25, 0.25, 0.25, 0.25],
+        manipulations: ["add-dominated", "add-duplicate"],
+      }
+    );
+
+    expect(result.scenarios).toHaveLength(10);
+    expect(result.reversedScenarios).toEqual([]);
+    expect(result.reversalRate).toBe(0);
+  });
+
+  it("should reject invalid options", () => {
+    const invalid: RankReversalOptions[] = [
+      { manipulations: ["swap" as RankReversalManipulation] },
+      { dominanceMargin: 0 },
+      { missingValuePolicy: "drop-alternative" },
+    ];
+
+    invalid.forEach((options) =>
+      expect(
+        catchError(() =>
+          testRankReversal(PHONES, PHONE_TYPES, calculateTopsisRanking, options)
+        ).code
+      ).toBe("INVALID_OPTION")
+    );
+  });
+});
+
+describe("Rank Acceptability Analysis", () => {
+  const OPTIONS = { iterations: 200, seed: 7 };
+
+  it("should be reproducible with the same seed", () => {
+    const first = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      OPTIONS
+    );
+    const second = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      OPTIONS
+    );
+
+    expect(second).toEqual(first);
+    expect(first.sampling).toBe("dirichlet");
+    expect(first.centerWeights).toEqual(
+      calculateMerecWeights(PHONES, PHONE_TYPES)
+    );
+    expect(first.baseRanks).toEqual(
+      calculateTopsisRanking(PHONES, PHONE_TYPES).ranks
+    );
+  });
+
+  it("should compute rank acceptability indices that sum to 1", () => {
+    const result = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      { ...OPTIONS, sampling: "bounded" }
+    );
+
+    result.rankAcceptability.forEach((row) =>
+      expect(row.reduce((sum, b) => sum + b, 0)).toBeCloseTo(1, 10)
+    );
+    // Without ties every rank is taken by exactly one alternative
+    for (let r = 0; r < 5; r++) {
+      expect(
+        result.rankAcceptability.reduce((sum, row) => sum + row[r], 0)
+      ).toBeCloseTo(1, 10);
+    }
+  });
+
+  it("should split tied ranks evenly between duplicated alternatives", () => {
+    const result = analyzeRankAcceptability(
+      [...PHONES, PHONES[0]],
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      OPTIONS
+    );
+
+    for (let r = 0; r < 6; r++) {
+      expect(
+        result.rankAcceptability.reduce((sum, row) => sum + row[r], 0)
+      ).toBeCloseTo(1, 10);
+    }
+    expect(result.rankAcceptability[5]).toEqual(result.rankAcceptability[0]);
+  });
+
+  it("should stay at the base ranking with a concentrated Dirichlet", () => {
+    const result = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateWaspasRanking,
+      { ...OPTIONS, concentration: 1e6 }
+    );
+
+    result.rankAcceptability.forEach((row, i) =>
+      expect(row[result.baseRanks[i] - 1]).toBe(1)
+    );
+  });
+
+  it("should sample valid weights with a very small concentration", () => {
+    // Every gamma draw underflows to 0 unless it is drawn in log space
+    const result = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateWaspasRanking,
+      { ...OPTIONS, concentration: 0.001 }
+    );
+
+    result.rankAcceptability.forEach((row) =>
+      expect(row.reduce((sum, b) => sum + b, 0)).toBeCloseTo(1, 10)
+    );
+    result.centralWeights.forEach((weights) => {
+      if (weights !== null) {
+        expect(weights.every(isFinite)).toBe(true);
+        expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+      }
+    });
+  });
+
+  it("should derive central weights and confidence factors", () => {
+    const result = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      { ...OPTIONS, sampling: "bounded" }
+    );
+
+    result.centralWeights.forEach((weights, i) => {
+      if (weights === null) {
+        expect(result.rankAcceptability[i][0]).toBe(0);
+        expect(result.confidenceFactors[i]).toBe(0);
+        return;
+      }
+      expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+      // Without noise the confidence factor is deterministic
+      expect(result.confidenceFactors[i]).toBe(
+        calculateTopsisRanking(PHONES, PHONE_TYPES, { weights }).ranks[i] === 1
+          ? 1
+          : 0
+      );
+    });
+  });
+
+  it("should keep sampled weights within the bounds", () => {
+    const sampled: number[][] = [];
+    const spy: RankingMethod = (matrix, criteriaTypes, options) => {
+      const result = calculateWaspasRanking(matrix, criteriaTypes, options);
+      sampled.push(result.weights);
+      return result;
+    };
+    const weightBounds: [number, number][] = [
+      [0.1, 0.3],
+      [0.2, 0.4],
+      [0, 0.5],
+      [0.2, 0.6],
+    ];
+
+    analyzeRankAcceptability(PHONES, PHONE_TYPES, spy, {
+      ...OPTIONS,
+      sampling: "bounded",
+      weightBounds,
+    });
+
+    // Base run, sampled runs and one confidence run per central weight vector
+    expect(sampled.length).toBeGreaterThan(OPTIONS.iterations);
+    sampled.slice(1, OPTIONS.iterations + 1).forEach((weights) =>
+      weights.forEach((w, j) => {
+        expect(w).toBeGreaterThanOrEqual(weightBounds[j][0]);
+        expect(w).toBeLessThanOrEqual(weightBounds[j][1]);
+      })
+    );
+  });
+
+  it("should estimate confidence factors under measurement noise", () => {
+    const result = analyzeRankAcceptability(
+      PHONES,
+      PHONE_TYPES,
+      calculateTopsisRanking,
+      { ...OPTIONS, noise: { type: "uniform", halfWidth: 0.1 } }
+    );
+
+    result.confidenceFactors.forEach((p) => {
+      expect(p).toBeGreaterThanOrEqual(0);
+      expect(p).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("should reject invalid options", () => {
+    const invalid: SmaaOptions[] = [
+      { sampling: "uniform" as WeightSampling },
+      { concentration: 0 },
+      { iterations: 0 },
+      { seed: NaN },
+      { sampling: "bounded", weightBounds: [[0, 1]] },
+      {
+        sampling: "bounded",
+        weightBounds: [
+          [0, 0.1],
+          [0, 0.1],
+          [0, 0.1],
+          [0, 0.1],
+        ],
+      },
+      { missingValuePolicy: "drop-alternative" },
+    ];
+
+    invalid.forEach((options) =>
+      expect(
+        catchError(() =>
+          analyzeRankAcceptability(
+            PHONES,
+            PHONE_TYPES,
+            calculateTopsisRanking,
+            options
+          )
+        ).code
+      ).toBe("INVALID_OPTION")
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Shared fixtures and helpers for the test suites
+ */
+
+import { calculateDecisionMatrix } from "../calculation/mer01-matriksKeputusan";
+import { calculateNormalizedMatrix } from "../calculation/mer02-normalisasi";
+import { calculateOverallPerformance } from "../calculation/mer03-kinerjaKeseluruhan";
+import { calculateRemovalPerformance } from "../calculation/mer04-kinerjaRemoval";
+import { calculateAbsoluteDeviations } from "../calculation/mer05-deviasiAbsolut";
+import { calculateFinalWeights } from "../calculation/mer06-bobotAkhir";
+import { MerecError } from "../errors";
+import {
+  Alternative,
+  Criteria,
+  CriteriaSpec,
+  MatrixValue,
+  NormalizationScheme,
+} from "../types";
+
+// Textbook example: price (cost), memory, storage and camera (benefit)
+export const PHONES = [
+  [250, 16, 12, 5],
+  [200, 16, 8, 3],
+  [300, 32, 16, 4],
+  [275, 32, 8, 4],
+  [225, 16, 16, 2],
+];
+export const PHONE_TYPES: CriteriaSpec[] = [
+  "cost",
+  "benefit",
+  "benefit",
+  "benefit",
+];
+
+// Run a function that should throw and return the MerecError it threw
+export function catchError(fn: () => unknown): MerecError {
+  try {
+    fn();
+  } catch (error) {
+    return error as MerecError;
+  }
+  throw new Error("Expected function to throw");
+}
+
+// Deterministic matrix generator (LCG) so benchmarks are reproducible
+export function generateMatrix(
+  rows: number,
+  cols: number,
+  seed = 42
+): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+
+  return Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, () => 1 + Math.round(next() * 9000) / 100)
+  );
+}
+
+export function generateSpecs(cols: number): CriteriaSpec[] {
+  return Array.from({ length: cols }, (_, j) =>
+    j % 5 === 4
+      ? { type: "target" as const, target: 50, acceptableRange: [45, 55] }
+      : j % 2 === 0
+        ? "benefit"
+        : "cost"
+  );
+}
+
+export function toCriteria(specs: CriteriaSpec[]): Criteria[] {
+  return specs.map((spec, j) =>
+    typeof spec === "string"
+      ? { id: `C${j + 1}`, name: `Criteria ${j + 1}`, type: spec }
+      : { id: `C${j + 1}`, name: `Criteria ${j + 1}`, ...spec }
+  );
+}
+
+// Reference path: MER-01..MER-06 step functions (O(m²·n) normalization, O(m·n²) removal)
+export function referenceMerec(
+  matrix: MatrixValue[][],
+  specs: CriteriaSpec[],
+  scheme: NormalizationScheme = "merec"
+) {
+  const criteria = toCriteria(specs);
+  const alternatives: Alternative[] = matrix.map((values, i) => ({
+    id: `A${i + 1}`,
+    name: `Alternative ${i + 1}`,
+    values,
+  }));
+  const decisionMatrix = calculateDecisionMatrix(alternatives, criteria);
+  const normalizedMatrix = calculateNormalizedMatrix(
+    decisionMatrix,
+    criteria,
+    1e-10,
+    undefined,
+    scheme
+  );
+  const overallPerformances = calculateOverallPerformance(normalizedMatrix);
+  const removalPerformances = calculateRemovalPerformance(normalizedMatrix);
+  const absoluteDeviations = calculateAbsoluteDeviations(
+    overallPerformances,
+    removalPerformances
+  );
+
+  return {
+    normalizedMatrix,
+    overallPerformances,
+    removalPerformances,
+    absoluteDeviations,
+    weights: calculateFinalWeights(absoluteDeviations),
+  };
+}
+
+export function expectAllClose(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, k) => {
+    expect(Math.abs(value - expected[k])).toBeLessThanOrEqual(
+      1e-12 * Math.max(1, Math.abs(expected[k]))
+    );
+  });
+}
+
+export function time(fn: () => void): number {
+  const start = Date.now();
+  fn();
+  return Date.now() - start;
+}
@@ -1,5 +1,18 @@
-import { calculateMerecWeights } from "../merec";
-import { CriteriaType } from "../types";
+import {
+  calculateMerecDetailed,
+  calculateMerecDetailedById,
+  calculateMerecWeights,
+  calculateMerecWeightsById,
+} from "../merec";
+import { MerecError, MerecInputError, MerecValueError } from "../errors";
+import {
+  Alternative,
+  Criteria,
+  CriteriaType,
+  MerecDiagnostic,
+  NormalizationScheme,
+} from "../types";
+import { catchError } from "./helpers";
 
 describe("MEREC Function", () => {
   it("should calculate weights using calculateMerecWeights function", () => {
@@ -127,3 +140,783 @@ describe("MEREC Function", () => {
     expect(totalWeight).toBeCloseTo(1, 10);
   });
 });
+
+describe("MEREC Detailed Result", () => {
+  const matrix = [
+    [8, 7, 6, 5],
+    [6, 8, 7, 6],
+    [7, 6, 8, 7],
+    [5, 9, 5, 8],
+  ];
+  const criteriaTypes: CriteriaType[] = [
+    "benefit",
+    "benefit",
+    "cost",
+    "benefit",
+  ];
+
+  it("should expose every intermediate step with matching shapes", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes);
+
+    expect(result.alternatives.map((a) => a.id)).toEqual([
+      "A1",
+      "A2",
+      "A3",
+      "A4",
+    ]);
+    expect(result.criteria.map((c) => c.type)).toEqual(criteriaTypes);
+    expect(result.decisionMatrix).toEqual(matrix);
+    expect(result.normalizedMatrix).toHaveLength(4);
+    expect(result.normalizedMatrix[0]).toHaveLength(4);
+    expect(result.overallPerformances).toHaveLength(4);
+    expect(result.removalPerformances).toHaveLength(4);
+    expect(result.removalPerformances[0]).toHaveLength(4);
+    expect(result.absoluteDeviations).toHaveLength(4);
+    expect(result.weights).toEqual(
+      calculateMerecWeights(matrix, criteriaTypes)
+    );
+  });
+
+  it("should normalize benefit with min/x and cost with x/max", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes);
+
+    // Benefit C1: min = 5
+    expect(result.normalizedMatrix[0][0]).toBeCloseTo(5 / 8, 12);
+    // Cost C3: max = 8
+    expect(result.normalizedMatrix[0][2]).toBeCloseTo(6 / 8, 12);
+  });
+
+  it("should derive weights from absolute deviations", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes);
+    const totalE = result.absoluteDeviations.reduce((sum, e) => sum + e, 0);
+
+    result.weights.forEach((w, j) => {
+      expect(w).toBeCloseTo(result.absoluteDeviations[j] / totalE, 12);
+    });
+  });
+});
+
+describe("MEREC Named Input", () => {
+  const criteria: Criteria[] = [
+    { id: "price", name: "Harga", type: "cost" },
+    { id: "quality", name: "Kualitas", type: "benefit" },
+    { id: "service", name: "Layanan", type: "benefit" },
+  ];
+  const alternatives: Alternative[] = [
+    { id: "s1", name: "Supplier 1", values: [100, 8, 7] },
+    { id: "s2", name: "Supplier 2", values: [80, 6, 8] },
+    { id: "s3", name: "Supplier 3", values: [120, 7, 6] },
+  ];
+
+  it("should return weights keyed by criterion id", () => {
+    const weights = calculateMerecWeightsById(alternatives, criteria);
+    const positional = calculateMerecWeights(
+      alternatives.map((a) => a.values),
+      criteria.map((c) => c.type)
+    );
+
+    expect(Object.keys(weights)).toEqual(["price", "quality", "service"]);
+    expect(weights.price).toBe(positional[0]);
+    expect(weights.quality).toBe(positional[1]);
+    expect(weights.service).toBe(positional[2]);
+  });
+
+  it("should keep weights attached to ids when criteria are reordered", () => {
+    const order = [2, 0, 1];
+    const weights = calculateMerecWeightsById(
+      alternatives.map((a) => ({
+        ...a,
+        values: order.map((j) => a.values[j]),
+      })),
+      order.map((j) => criteria[j])
+    );
+    const original = calculateMerecWeightsById(alternatives, criteria);
+
+    for (const id of Object.keys(original)) {
+      expect(weights[id]).toBeCloseTo(original[id], 12);
+    }
+  });
+
+  it("should keep the given labels in the detailed result", () => {
+    const result = calculateMerecDetailedById(alternatives, criteria);
+
+    expect(result.alternatives).toBe(alternatives);
+    expect(result.criteria).toBe(criteria);
+  });
+
+  it("should throw error with duplicate criterion ids", () => {
+    expect(() => {
+      calculateMerecWeightsById(alternatives, [
+        criteria[0],
+        criteria[1],
+        { ...criteria[2], id: "price" },
+      ]);
+    }).toThrow("ID kriteria 'price' duplikat");
+  });
+
+  it("should throw error with duplicate alternative ids", () => {
+    expect(() => {
+      calculateMerecWeightsById(
+        [alternatives[0], { ...alternatives[1], id: "s1" }],
+        criteria
+      );
+    }).toThrow("ID alternatif 's1' duplikat");
+  });
+
+  it("should throw error when an alternative misses values", () => {
+    expect(() => {
+      calculateMerecWeightsById(
+        [alternatives[0], { ...alternatives[1], values: [80, 6] }],
+        criteria
+      );
+    }).toThrow("Alternatif 's2' harus memiliki 3 nilai");
+  });
+});
+
+describe("MEREC Diagnostics", () => {
+  it("should report non-positive value conversion in MER-01", () => {
+    const result = calculateMerecDetailed(
+      [
+        [8, -2],
+        [6, 4],
+        [7, 5],
+      ],
+      ["benefit", "cost"]
+    );
+
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({
+        code: "NON_POSITIVE_VALUE_CONVERTED",
+        severity: "warning",
+        step: "MER-01",
+        alternativeIndex: 0,
+        criterionIndex: 1,
+      })
+    );
+    expect(result.decisionMatrix[0][1]).toBe(3);
+  });
+
+  it("should report the equal-weight fallback in MER-06", () => {
+    const result = calculateMerecDetailed(
+      [
+        [5, 5],
+        [5, 5],
+      ],
+      ["benefit", "benefit"]
+    );
+
+    expect(result.weights).toEqual([0.5, 0.5]);
+    expect(result.warnings.map((w) => w.code)).toContain(
+      "EQUAL_WEIGHT_FALLBACK"
+    );
+  });
+
+  it("should return no warnings for clean data", () => {
+    const result = calculateMerecDetailed(
+      [
+        [8, 7, 6],
+        [6, 8, 7],
+        [7, 6, 8],
+      ],
+      ["benefit", "benefit", "cost"]
+    );
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should forward every diagnostic to the logger", () => {
+    const logged: MerecDiagnostic[] = [];
+    const result = calculateMerecDetailed([[10], [8], [12]], ["benefit"], {
+      logger: (d) => logged.push(d),
+    });
+
+    expect(logged).toEqual(result.warnings);
+    expect(logged.every((d) => d.code === "SINGLE_CRITERION_REMOVAL")).toBe(
+      true
+    );
+  });
+
+  it("should never touch the global console", () => {
+    const originalLog = console.log;
+    const originalWarn = console.warn;
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    calculateMerecWeights(
+      [
+        [0, 1],
+        [2, 3],
+      ],
+      ["benefit", "cost"],
+      {
+        logger: () => {
+          expect(console.warn).toBe(warnSpy);
+        },
+      }
+    );
+
+    expect(warnSpy).not.toHaveBeenCalled();
+    warnSpy.mockRestore();
+    expect(console.log).toBe(originalLog);
+    expect(console.warn).toBe(originalWarn);
+  });
+});
+
+describe("MEREC Errors", () => {
+  it("should throw MerecInputError with a code for an empty matrix", () => {
+    const error = catchError(() => calculateMerecWeights([], ["benefit"]));
+
+    expect(error).toBeInstanceOf(MerecInputError);
+    expect(error).toBeInstanceOf(MerecError);
+    expect(error.code).toBe("EMPTY_MATRIX");
+    expect(error.message).toBe("Matrix tidak boleh kosong");
+  });
+
+  it("should report row context for inconsistent row lengths", () => {
+    const error = catchError(() =>
+      calculateMerecWeights(
+        [
+          [1, 2, 3],
+          [4, 5],
+        ],
+        ["benefit", "benefit", "cost"]
+      )
+    );
+
+    expect(error.code).toBe("ROW_LENGTH_MISMATCH");
+    expect(error.context).toEqual({ row: 1, expected: 3, actual: 2 });
+  });
+
+  it("should report column count mismatch", () => {
+    const error = catchError(() =>
+      calculateMerecWeights([[1, 2, 3]], ["benefit", "benefit"])
+    );
+
+    expect(error.code).toBe("COLUMN_COUNT_MISMATCH");
+    expect(error.context).toEqual({ expected: 2, actual: 3 });
+  });
+
+  it("should throw MerecValueError for non-finite values", () => {
+    const error = catchError(() =>
+      calculateMerecWeights(
+        [
+          [1, 2],
+          [3, Infinity],
+        ],
+        ["benefit", "cost"]
+      )
+    );
+
+    expect(error).toBeInstanceOf(MerecValueError);
+    expect(error.code).toBe("NON_FINITE_VALUE");
+    expect(error.context.row).toBe(1);
+    expect(error.context.column).toBe(1);
+  });
+
+  it("should report the duplicated id", () => {
+    const error = catchError(() =>
+      calculateMerecWeightsById(
+        [{ id: "a", name: "A", values: [1, 2] }],
+        [
+          { id: "c", name: "C1", type: "benefit" },
+          { id: "c", name: "C2", type: "cost" },
+        ]
+      )
+    );
+
+    expect(error.code).toBe("DUPLICATE_ID");
+    expect(error.context.id).toBe("c");
+  });
+});
+
+describe("MEREC Non-Positive Strategies", () => {
+  // Kolom profit (benefit) dengan nilai negatif
+  const matrix = [
+    [-5, 7],
+    [4, 8],
+    [2, 6],
+  ];
+  const criteriaTypes: CriteriaType[] = ["benefit", "cost"];
+
+  it("should keep the legacy |x| + 1 conversion by default", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes);
+
+    expect(result.decisionMatrix.map((row) => row[0])).toEqual([6, 4, 2]);
+    expect(result.transformations).toEqual([
+      {
+        criterionIndex: 0,
+        criterionId: "C1",
+        strategy: "legacy",
+        affectedRows: [0],
+      },
+    ]);
+  });
+
+  it("should shift the whole column by |min| + 1 and keep the order", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      nonPositiveStrategy: "shift",
+    });
+
+    expect(result.decisionMatrix.map((row) => row[0])).toEqual([1, 10, 8]);
+    expect(result.decisionMatrix.map((row) => row[1])).toEqual([7, 8, 6]);
+    expect(result.transformations[0]).toMatchObject({
+      strategy: "shift",
+      scale: 1,
+      offset: 6,
+    });
+  });
+
+  it("should rescale the whole column into [1, 2]", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      nonPositiveStrategy: "minmax",
+    });
+    const column = result.decisionMatrix.map((row) => row[0]);
+
+    expect(column[0]).toBeCloseTo(1, 12);
+    expect(column[1]).toBeCloseTo(2, 12);
+    expect(column[2]).toBeCloseTo(1 + 7 / 9, 12);
+  });
+
+  it("should reject non-positive values with the reject strategy", () => {
+    expect(() =>
+      calculateMerecWeights(matrix, criteriaTypes, {
+        nonPositiveStrategy: "reject",
+      })
+    ).toThrow(MerecValueError);
+  });
+
+  it("should allow per-criterion overrides", () => {
+    const result = calculateMerecDetailed(
+      [
+        [-5, 0],
+        [4, 8],
+        [2, 6],
+      ],
+      criteriaTypes,
+      {
+        nonPositiveStrategy: "shift",
+        nonPositiveStrategyByCriterion: { C2: "legacy" },
+      }
+    );
+
+    expect(result.transformations.map((t) => t.strategy)).toEqual([
+      "shift",
+      "legacy",
+    ]);
+    expect(result.decisionMatrix[0][1]).toBe(1);
+  });
+
+  it("should throw error for an unknown criterion override", () => {
+    expect(() =>
+      calculateMerecWeights(matrix, criteriaTypes, {
+        nonPositiveStrategyByCriterion: { C9: "shift" },
+      })
+    ).toThrow(MerecInputError);
+  });
+});
+
+describe("MEREC Missing Values", () => {
+  const matrix = [
+    [8, null, 6],
+    [6, 8, 7],
+    [7, 6, NaN],
+    [5, 9, 5],
+  ];
+  const criteriaTypes: CriteriaType[] = ["benefit", "benefit", "cost"];
+
+  it("should reject missing values by default", () => {
+    expect(() => calculateMerecWeights(matrix, criteriaTypes)).toThrow(
+      MerecValueError
+    );
+  });
+
+  it("should drop alternatives with missing values", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      missingValuePolicy: "drop-alternative",
+    });
+
+    expect(result.alternatives.map((a) => a.id)).toEqual(["A2", "A4"]);
+    expect(result.weights).toEqual(
+      calculateMerecWeights(
+        [
+          [6, 8, 7],
+          [5, 9, 5],
+        ],
+        criteriaTypes
+      )
+    );
+    expect(result.missingCells).toHaveLength(2);
+  });
+
+  it("should report diagnostics after a drop with the input row index", () => {
+    const result = calculateMerecDetailed(
+      [
+        [1, null],
+        [0, 3],
+        [2, 4],
+      ],
+      ["benefit", "benefit"],
+      { missingValuePolicy: "drop-alternative" }
+    );
+
+    expect(
+      result.warnings.map((w) => [w.code, w.alternativeIndex])
+    ).toContainEqual(["ALTERNATIVE_DROPPED", 0]);
+    expect(
+      result.warnings.map((w) => [w.code, w.alternativeIndex])
+    ).toContainEqual(["NON_POSITIVE_VALUE_CONVERTED", 1]);
+  });
+
+  it("should impute column mean and median", () => {
+    const mean = calculateMerecDetailed(matrix, criteriaTypes, {
+      missingValuePolicy: "mean",
+    });
+    const median = calculateMerecDetailed(matrix, criteriaTypes, {
+      missingValuePolicy: "median",
+    });
+
+    expect(mean.decisionMatrix[0][1]).toBeCloseTo(23 / 3, 12);
+    expect(mean.missingCells[0]).toMatchObject({
+      alternativeId: "A1",
+      criterionId: "C2",
+      policy: "mean",
+    });
+    expect(median.decisionMatrix[0][1]).toBe(8);
+    expect(median.decisionMatrix[2][2]).toBe(6);
+  });
+
+  it("should impute the worst value depending on criteria type", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      missingValuePolicy: "worst",
+    });
+
+    // Benefit: minimum, cost: maksimum
+    expect(result.decisionMatrix[0][1]).toBe(6);
+    expect(result.decisionMatrix[2][2]).toBe(7);
+    expect(result.missingCells.map((c) => c.imputedValue)).toEqual([6, 7]);
+  });
+
+  it("should skip missing cells in the MER-03/MER-04 averages", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      missingValuePolicy: "skip",
+    });
+
+    expect(Number.isNaN(result.normalizedMatrix[0][1])).toBe(true);
+    expect(result.overallPerformances.every(isFinite)).toBe(true);
+    // Menghilangkan kriteria yang hilang tidak mengubah kinerja
+    expect(result.removalPerformances[0][1]).toBeCloseTo(
+      result.overallPerformances[0],
+      12
+    );
+
+    const sum = result.weights.reduce((acc, w) => acc + w, 0);
+    expect(sum).toBeCloseTo(1, 10);
+  });
+
+  it("should throw error when a whole column is missing", () => {
+    expect(() =>
+      calculateMerecWeights(
+        [
+          [1, null],
+          [2, null],
+        ],
+        ["benefit", "cost"],
+        { missingValuePolicy: "mean" }
+      )
+    ).toThrow("Semua nilai pada kriteria 'Criteria 2' hilang");
+  });
+});
+
+describe("MEREC Target Criteria", () => {
+  // Suhu ruangan dengan target 22°C
+  const matrix = [
+    [22, 8],
+    [25, 6],
+    [18, 7],
+    [21, 9],
+  ];
+
+  it("should normalize by distance to the target (smaller is better)", () => {
+    const result = calculateMerecDetailed(matrix, [
+      { type: "target", target: 22 },
+      "benefit",
+    ]);
+    const column = result.normalizedMatrix.map((row) => row[0]);
+
+    // R = 25 - 18 = 7, max d = 4
+    expect(column[0]).toBeCloseTo(1 / (1 + 4 / 7), 12);
+    expect(column[1]).toBeCloseTo((1 + 3 / 7) / (1 + 4 / 7), 12);
+    expect(column[2]).toBeCloseTo(1, 12);
+    expect(column.every((v) => v > 0 && v <= 1)).toBe(true);
+
+    const sum = result.weights.reduce((acc, w) => acc + w, 0);
+    expect(sum).toBeCloseTo(1, 10);
+  });
+
+  it("should treat values inside the acceptable range as ideal", () => {
+    const result = calculateMerecDetailed(matrix, [
+      { type: "target", target: 22, acceptableRange: [21, 23] },
+      "benefit",
+    ]);
+    const column = result.normalizedMatrix.map((row) => row[0]);
+
+    expect(column[0]).toBeCloseTo(column[3], 12);
+    expect(column[0]).toBeLessThan(column[1]);
+  });
+
+  it("should accept non-positive values for target criteria", () => {
+    const result = calculateMerecDetailed(
+      [
+        [-1, 8],
+        [0, 6],
+        [2, 7],
+      ],
+      [{ type: "target", target: 0 }, "benefit"]
+    );
+
+    expect(result.decisionMatrix.map((row) => row[0])).toEqual([-1, 0, 2]);
+    expect(result.transformations).toEqual([]);
+  });
+
+  it("should accept target criteria in the named input", () => {
+    const weights = calculateMerecWeightsById(
+      matrix.map((values, i) => ({ id: `r${i}`, name: `Ruang ${i}`, values })),
+      [
+        { id: "temp", name: "Suhu", type: "target", target: 22 },
+        { id: "comfort", name: "Kenyamanan", type: "benefit" },
+      ]
+    );
+
+    expect(Object.keys(weights)).toEqual(["temp", "comfort"]);
+  });
+
+  it("should throw error when a target criterion has no target", () => {
+    expect(() => calculateMerecWeights(matrix, ["target", "benefit"])).toThrow(
+      MerecInputError
+    );
+  });
+});
+
+describe("MEREC Normalization Schemes", () => {
+  const matrix = [
+    [8, 7, 6, 5],
+    [6, 8, 7, 6],
+    [7, 6, 8, 7],
+    [5, 9, 5, 8],
+  ];
+  const criteriaTypes: CriteriaType[] = [
+    "benefit",
+    "benefit",
+    "cost",
+    "benefit",
+  ];
+  const schemes: NormalizationScheme[] = [
+    "merec",
+    "vector",
+    "sum-linear",
+    "max-linear",
+    "logarithmic",
+  ];
+
+  it("should default to the MEREC scheme and record it", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes);
+
+    expect(result.normalization).toBe("merec");
+    expect(
+      calculateMerecDetailed(matrix, criteriaTypes, { normalization: "merec" })
+        .weights
+    ).toEqual(result.weights);
+  });
+
+  it.each(schemes)(
+    "should keep %s values positive, at most 1 and smaller is better",
+    (scheme) => {
+      const result = calculateMerecDetailed(matrix, criteriaTypes, {
+        normalization: scheme,
+      });
+
+      expect(result.normalization).toBe(scheme);
+      result.normalizedMatrix.forEach((row) =>
+        row.forEach((v) => {
+          expect(v).toBeGreaterThan(0);
+          expect(v).toBeLessThanOrEqual(1);
+        })
+      );
+
+      // Benefit C1: alternatif terbaik (8) memiliki nilai terkecil
+      const column = result.normalizedMatrix.map((row) => row[0]);
+      expect(Math.min(...column)).toBe(column[0]);
+      // Cost C3: alternatif terbaik (5) memiliki nilai terkecil
+      const costColumn = result.normalizedMatrix.map((row) => row[2]);
+      expect(Math.min(...costColumn)).toBe(costColumn[3]);
+
+      const sum = result.weights.reduce((acc, w) => acc + w, 0);
+      expect(sum).toBeCloseTo(1, 10);
+    }
+  );
+
+  it("should apply the scheme formulas to the decision matrix values", () => {
+    const merec = calculateMerecDetailed(
+      matrix,
+      criteriaTypes
+    ).normalizedMatrix;
+
+    // Benefit C1 = [8, 6, 7, 5], cost C3 = [6, 7, 8, 5]; nx = 1 - (r - min r)
+    const vector = calculateMerecDetailed(matrix, criteriaTypes, {
+      normalization: "vector",
+    }).normalizedMatrix;
+    const norm = Math.sqrt(8 ** 2 + 6 ** 2 + 7 ** 2 + 5 ** 2);
+    expect(vector[1][0]).toBeCloseTo(1 - (6 - 5) / norm, 12);
+    expect(vector[1][2]).toBeCloseTo(1 - (8 - 7) / norm, 12);
+
+    const sumLinear = calculateMerecDetailed(matrix, criteriaTypes, {
+      normalization: "sum-linear",
+    }).normalizedMatrix;
+    expect(sumLinear[1][0]).toBeCloseTo(1 - (6 - 5) / 26, 12);
+    const inverseSum = 1 / 6 + 1 / 7 + 1 / 8 + 1 / 5;
+    expect(sumLinear[1][2]).toBeCloseTo(1 - (1 / 7 - 1 / 8) / inverseSum, 12);
+
+    const maxLinear = calculateMerecDetailed(matrix, criteriaTypes, {
+      normalization: "max-linear",
+    }).normalizedMatrix;
+    expect(maxLinear[1][0]).toBeCloseTo(1 - (6 - 5) / 8, 12);
+    expect(maxLinear[1][2]).toBeCloseTo(merec[1][2], 12);
+
+    const logarithmic = calculateMerecDetailed(matrix, criteriaTypes, {
+      normalization: "logarithmic",
+    }).normalizedMatrix;
+    const logTotal = Math.log(8 * 6 * 7 * 5);
+    expect(logarithmic[1][0]).toBeCloseTo(
+      1 - (Math.log(6) - Math.log(5)) / logTotal,
+      12
+    );
+  });
+
+  it("should keep the order of logarithmic scores for values up to 1", () => {
+    const below = calculateMerecDetailed(
+      [
+        [0.2, 1],
+        [0.5, 2],
+        [0.8, 3],
+      ],
+      ["benefit", "benefit"],
+      { normalization: "logarithmic" }
+    ).normalizedMatrix.map((row) => row[0]);
+    const straddling = calculateMerecDetailed(
+      [[0.5], [2.1], [1]],
+      ["benefit"],
+      { normalization: "logarithmic" }
+    ).normalizedMatrix.map((row) => row[0]);
+
+    // Shifted to [2, 2.3, 2.6]: the best alternative gets the smallest value
+    const logTotal = Math.log(2 * 2.3 * 2.6);
+    expect(below[0]).toBe(1);
+    expect(below[2]).toBeCloseTo(
+      1 - (Math.log(2.6) - Math.log(2)) / logTotal,
+      12
+    );
+    expect(below[1]).toBeGreaterThan(below[2]);
+    expect(straddling[0]).toBe(1);
+    expect(straddling[2]).toBeLessThan(1);
+    expect(straddling[1]).toBeLessThan(straddling[2]);
+    expect(Math.min(...straddling)).toBeGreaterThan(0.5);
+  });
+
+  it("should throw error for an unknown scheme", () => {
+    expect(() =>
+      calculateMerecWeights(matrix, criteriaTypes, {
+        normalization: "zscore" as NormalizationScheme,
+      })
+    ).toThrow(MerecInputError);
+  });
+});
+
+describe("MEREC Weight Constraints", () => {
+  const matrix = [
+    [250, 16, 12, 5],
+    [200, 16, 8, 3],
+    [300, 32, 16, 4],
+    [275, 32, 8, 4],
+    [225, 16, 16, 2],
+  ];
+  const criteriaTypes: CriteriaType[] = [
+    "cost",
+    "benefit",
+    "benefit",
+    "benefit",
+  ];
+
+  it("should return the closest weights within the bounds", () => {
+    const unconstrained = calculateMerecWeights(matrix, criteriaTypes);
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      weightConstraints: { min: 0.23, max: 0.27 },
+    });
+
+    expect(result.weightConstraints?.unconstrainedWeights).toEqual(
+      unconstrained
+    );
+    // C1 (0.2204) rises to the lower bound, C4 (0.2916) drops to the upper bound
+    expect(result.weights[0]).toBeCloseTo(0.23, 12);
+    expect(result.weights[3]).toBeCloseTo(0.27, 12);
+    // C2 and C3 move by the same amount
+    expect(result.weightConstraints?.adjustments[1]).toBeCloseTo(
+      result.weightConstraints?.adjustments[2] as number,
+      12
+    );
+    expect(result.weights.reduce((acc, w) => acc + w, 0)).toBeCloseTo(1, 12);
+    expect(result.weightsById.C1).toBe(result.weights[0]);
+    expect(
+      result.weightConstraints?.activeConstraints.map((c) => [c.id, c.bound])
+    ).toEqual([
+      ["C1", "lower"],
+      ["C4", "upper"],
+    ]);
+  });
+
+  it("should report every adjusted weight as a diagnostic", () => {
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      weightConstraints: { bounds: { C4: { max: 0.25 } } },
+    });
+
+    const constrained = result.warnings.filter(
+      (w: MerecDiagnostic) => w.code === "WEIGHT_CONSTRAINED"
+    );
+    expect(constrained.map((w) => w.criterionIndex)).toEqual([0, 1, 2, 3]);
+    expect(constrained.every((w) => w.severity === "info")).toBe(true);
+  });
+
+  it("should leave feasible weights and the default result unchanged", () => {
+    const unconstrained = calculateMerecDetailed(matrix, criteriaTypes);
+    const result = calculateMerecDetailed(matrix, criteriaTypes, {
+      weightConstraints: { min: 0.1, max: 0.4 },
+    });
+
+    expect(unconstrained.weightConstraints).toBeUndefined();
+    expect(result.weights).toEqual(unconstrained.weights);
+    expect(result.weightConstraints?.distance).toBe(0);
+    expect(result.weightConstraints?.activeConstraints).toEqual([]);
+  });
+
+  it("should apply the bounds of named criteria", () => {
+    const alternatives: Alternative[] = matrix.map((values, i) => ({
+      id: `P${i + 1}`,
+      name: `Phone ${i + 1}`,
+      values,
+    }));
+    const criteria: Criteria[] = ["price", "storage", "camera", "battery"].map(
+      (id, j) => ({ id, name: id, type: criteriaTypes[j] })
+    );
+
+    const weights = calculateMerecWeightsById(alternatives, criteria, {
+      weightConstraints: {
+        groups: [{ name: "media", criteria: ["storage", "camera"], min: 0.6 }],
+      },
+    });
+
+    expect(weights.storage + weights.camera).toBeCloseTo(0.6, 9);
+    expect(() =>
+      calculateMerecWeightsById(alternatives, criteria, {
+        weightConstraints: { bounds: { C1: { min: 0.1 } } },
+      })
+    ).toThrow(MerecInputError);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Opt-in benchmarks and large inputs of the MEREC core (npm run test:bench)
+ */
+
+import { calculateMerecDetailed } from "../merec";
+import {
+  expectAllClose,
+  generateMatrix,
+  generateSpecs,
+  referenceMerec,
+  time,
+} from "./helpers";
+
+// Large inputs take seconds on slow machines
+jest.setTimeout(120000);
+
+describe("MEREC Core Performance", () => {
+  it("should be faster than the step-by-step implementation", () => {
+    const matrix = generateMatrix(400, 20);
+    const specs = generateSpecs(20);
+
+    let reference: number[] = [];
+    let weights: number[] = [];
+    const referenceTime = time(() => {
+      reference = referenceMerec(matrix, specs).weights;
+    });
+    const coreTime = time(() => {
+      weights = calculateMerecDetailed(matrix, specs).weights;
+    });
+
+    expectAllClose(weights, reference);
+    expect(coreTime).toBeLessThan(referenceTime);
+  });
+
+  it("should handle tens of thousands of alternatives", () => {
+    const matrix = generateMatrix(20000, 50);
+    const specs = generateSpecs(50);
+
+    const weights = calculateMerecDetailed(matrix, specs).weights;
+
+    expect(weights).toHaveLength(50);
+    expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+  });
+
+  it("should not overflow the call stack on very long columns", () => {
+    const matrix = generateMatrix(200000, 2);
+
+    const weights = calculateMerecDetailed(matrix, [
+      "benefit",
+      { type: "target", target: 50 },
+    ]).weights;
+
+    expect(weights).toHaveLength(2);
+    expect(weights.every((w) => Number.isFinite(w))).toBe(true);
+  });
+});
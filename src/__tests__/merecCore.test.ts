@@ -0,0 +1,105 @@
+import { calculateMerecDetailed } from "../merec";
+import { calculateNormalizedMatrix } from "../calculation/mer02-normalisasi";
+import {
+  calculateNormalizedMatrixDense,
+  fromDenseMatrix,
+  toDenseMatrix,
+} from "../calculation/merecCore";
+import { MatrixValue, MerecDiagnostic, NormalizationScheme } from "../types";
+import {
+  expectAllClose,
+  generateMatrix,
+  generateSpecs,
+  referenceMerec,
+  toCriteria,
+} from "./helpers";
+
+describe("MEREC Core Equivalence", () => {
+  const schemes: NormalizationScheme[] = [
+    "merec",
+    "vector",
+    "sum-linear",
+    "max-linear",
+    "logarithmic",
+  ];
+
+  it.each(schemes)(
+    "should match the step-by-step implementation (%s)",
+    (scheme) => {
+      const matrix = generateMatrix(60, 12);
+      const specs = generateSpecs(12);
+
+      const reference = referenceMerec(matrix, specs, scheme);
+      const result = calculateMerecDetailed(matrix, specs, {
+        normalization: scheme,
+      });
+
+      // MER-02 dan MER-03 identik bit per bit
+      expect(result.normalizedMatrix).toEqual(reference.normalizedMatrix);
+      expect(result.overallPerformances).toEqual(reference.overallPerformances);
+
+      expectAllClose(
+        result.removalPerformances.flat(),
+        reference.removalPerformances.flat()
+      );
+      expectAllClose(result.absoluteDeviations, reference.absoluteDeviations);
+      expectAllClose(result.weights, reference.weights);
+    }
+  );
+
+  it("should match the step-by-step implementation with skipped missing values", () => {
+    const matrix: MatrixValue[][] = generateMatrix(40, 6);
+    matrix[3][1] = null;
+    matrix[10][4] = null;
+    matrix[25][0] = null;
+    matrix[25][5] = null;
+    const specs = generateSpecs(6);
+
+    const reference = referenceMerec(matrix, specs);
+    const result = calculateMerecDetailed(matrix, specs, {
+      missingValuePolicy: "skip",
+    });
+
+    expect(result.normalizedMatrix).toEqual(reference.normalizedMatrix);
+    expect(result.overallPerformances).toEqual(reference.overallPerformances);
+    expectAllClose(
+      result.removalPerformances.flat(),
+      reference.removalPerformances.flat()
+    );
+    expectAllClose(result.weights, reference.weights);
+  });
+
+  it("should report the same diagnostics as the step-by-step implementation", () => {
+    const matrix = [
+      [0, 2],
+      [3, 0],
+      [4, 5],
+    ];
+    const criteria = toCriteria(["benefit", "cost"]);
+
+    const referenceDiagnostics: MerecDiagnostic[] = [];
+    calculateNormalizedMatrix(matrix, criteria, 1e-10, (d) =>
+      referenceDiagnostics.push(d)
+    );
+
+    const coreDiagnostics: MerecDiagnostic[] = [];
+    const dense = calculateNormalizedMatrixDense(
+      toDenseMatrix(matrix),
+      criteria,
+      1e-10,
+      (d) => coreDiagnostics.push(d)
+    );
+
+    expect(coreDiagnostics).toEqual(referenceDiagnostics);
+    expect(fromDenseMatrix(dense)).toEqual(
+      calculateNormalizedMatrix(matrix, criteria)
+    );
+  });
+
+  it("should keep the single-criterion fallback", () => {
+    const result = calculateMerecDetailed([[1], [2], [3]], ["benefit"]);
+
+    expect(result.removalPerformances).toEqual([[0], [0], [0]]);
+    expect(result.weights).toEqual([1]);
+  });
+});
@@ -0,0 +1,448 @@
+import { calculateMerecWeights } from "../merec";
+import { calculateTopsisRanking } from "../ranking/topsis";
+import { calculateVikorRanking } from "../ranking/vikor";
+import { calculateWaspasRanking } from "../ranking/waspas";
+import { calculateMultimooraRanking } from "../ranking/multimoora";
+import { calculateEdasRanking } from "../ranking/edas";
+import { calculateCodasRanking } from "../ranking/codas";
+import { CriteriaSpec } from "../types";
+import { PHONES, PHONE_TYPES, catchError } from "./helpers";
+
+const EQUAL_WEIGHTS = [0.25, 0.25, 0.25, 0.25];
+
+describe("TOPSIS Ranking", () => {
+  it("should reproduce the textbook closeness coefficients", () => {
+    const result = calculateTopsisRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    const expected = [0.5343, 0.3084, 0.6916, 0.5347, 0.401];
+    result.closeness.forEach((c, i) => {
+      expect(c).toBeCloseTo(expected[i], 4);
+    });
+    expect(result.ranks).toEqual([3, 5, 1, 2, 4]);
+  });
+
+  it("should use MEREC weights by default", () => {
+    const result = calculateTopsisRanking(PHONES, PHONE_TYPES);
+
+    expect(result.weights).toEqual(calculateMerecWeights(PHONES, PHONE_TYPES));
+    expect(result.ranks).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should expose distances and ideal solutions", () => {
+    const result = calculateTopsisRanking(
+      [
+        [10, 1],
+        [5, 2],
+      ],
+      ["benefit", "cost"],
+      { weights: [0.5, 0.5] }
+    );
+
+    expect(result.idealSolution[0]).toBeCloseTo(result.weightedMatrix[0][0]);
+    expect(result.idealSolution[1]).toBeCloseTo(result.weightedMatrix[0][1]);
+    expect(result.distancesToIdeal[0]).toBe(0);
+    expect(result.distancesToAntiIdeal[1]).toBe(0);
+    expect(result.closeness).toEqual([1, 0]);
+    expect(result.ranks).toEqual([1, 2]);
+  });
+
+  it("should rank target criteria by distance to the target", () => {
+    const result = calculateTopsisRanking(
+      [[18], [22], [30]],
+      [{ type: "target", target: 21 }],
+      { weights: [1] }
+    );
+
+    expect(result.ranks).toEqual([2, 1, 3]);
+  });
+
+  it("should share ranks between identical alternatives", () => {
+    const result = calculateTopsisRanking(
+      [
+        [3, 3],
+        [3, 3],
+      ],
+      ["benefit", "cost"],
+      { weights: [0.5, 0.5] }
+    );
+
+    expect(result.closeness).toEqual([0.5, 0.5]);
+    expect(result.ranks).toEqual([1, 1]);
+  });
+
+  it("should reject invalid weights", () => {
+    expect(
+      catchError(() =>
+        calculateTopsisRanking(PHONES, PHONE_TYPES, { weights: [0.5, 0.5] })
+      ).code
+    ).toBe("COLUMN_COUNT_MISMATCH");
+    expect(
+      catchError(() =>
+        calculateTopsisRanking(PHONES, PHONE_TYPES, {
+          weights: [0.5, 0.5, 0.5, 0.5],
+        })
+      ).code
+    ).toBe("WEIGHT_SUM_MISMATCH");
+  });
+
+  it("should keep the order of negative values", () => {
+    // Profit -5 is worse than 4; the legacy |x| + 1 conversion would turn it into 6
+    const matrix = [
+      [-5, 3],
+      [4, 3],
+      [1, 5],
+    ];
+    const types: CriteriaSpec[] = ["benefit", "benefit"];
+
+    const merec = calculateTopsisRanking(matrix, types);
+    expect(merec.weights).toEqual(calculateMerecWeights(matrix, types));
+    expect(merec.ranks[1]).toBeLessThan(merec.ranks[0]);
+
+    const fixed = calculateTopsisRanking(matrix, types, {
+      weights: [0.5, 0.5],
+      nonPositiveStrategyByCriterion: { C1: "legacy" },
+    });
+    expect(fixed.ranks[1]).toBeLessThan(fixed.ranks[0]);
+  });
+
+  it("should reject the skip missing value policy", () => {
+    const error = catchError(() =>
+      calculateTopsisRanking(PHONES, PHONE_TYPES, {
+        missingValuePolicy: "skip",
+      })
+    );
+
+    expect(error.code).toBe("INVALID_OPTION");
+  });
+
+  it("should rank only the remaining alternatives when dropping missing values", () => {
+    const result = calculateTopsisRanking(
+      [[250, 16, 12, 5], [200, null, 8, 3], ...PHONES.slice(2)],
+      PHONE_TYPES,
+      { weights: EQUAL_WEIGHTS, missingValuePolicy: "drop-alternative" }
+    );
+
+    expect(result.alternatives.map((a) => a.id)).toEqual([
+      "A1",
+      "A3",
+      "A4",
+      "A5",
+    ]);
+    expect(result.ranks).toHaveLength(4);
+  });
+});
+
+describe("VIKOR Ranking", () => {
+  it("should calculate S, R and Q for a dominating alternative", () => {
+    const result = calculateVikorRanking(
+      [
+        [10, 10],
+        [5, 5],
+        [1, 1],
+      ],
+      ["benefit", "benefit"],
+      { weights: [0.5, 0.5] }
+    );
+
+    expect(result.bestValues).toEqual([10, 10]);
+    expect(result.worstValues).toEqual([1, 1]);
+    expect(result.utility[1]).toBeCloseTo(5 / 9, 10);
+    expect(result.regret[1]).toBeCloseTo(2.5 / 9, 10);
+    expect(result.compromiseIndex).toEqual([0, expect.any(Number), 1]);
+    expect(result.strategyWeight).toBe(0.5);
+    expect(result.ranks).toEqual([1, 2, 3]);
+    expect(result.acceptableAdvantage).toBe(true);
+    expect(result.acceptableStability).toBe(true);
+    expect(result.compromiseSet).toEqual([0]);
+  });
+
+  it("should return every alternative within DQ when the advantage is not acceptable", () => {
+    const result = calculateVikorRanking(
+      [
+        [10, 1],
+        [1, 10],
+        [5, 5],
+      ],
+      ["benefit", "benefit"],
+      { weights: [0.5, 0.5], strategyWeight: 0.7 }
+    );
+
+    expect(result.compromiseIndex[0]).toBeCloseTo(0.3, 10);
+    expect(result.compromiseIndex[2]).toBeCloseTo(0.7, 10);
+    expect(result.acceptableAdvantage).toBe(false);
+    expect(result.compromiseSet).toEqual([0, 1, 2]);
+  });
+
+  it("should return the first two alternatives when the stability is not acceptable", () => {
+    const result = calculateVikorRanking(
+      [
+        [4.8, 7],
+        [1, 11],
+        [11, 1],
+        [5, 5],
+      ],
+      ["benefit", "benefit"],
+      { weights: [0.5, 0.5] }
+    );
+
+    expect(result.compromiseIndex[0]).toBeCloseTo(0.075, 10);
+    expect(result.ranksByUtility[0]).not.toBe(1);
+    expect(result.ranksByRegret[0]).not.toBe(1);
+    expect(result.acceptableAdvantage).toBe(true);
+    expect(result.acceptableStability).toBe(false);
+    expect(result.compromiseSet).toEqual([0, 1]);
+  });
+
+  it("should use MEREC weights by default", () => {
+    const result = calculateVikorRanking(PHONES, PHONE_TYPES);
+
+    expect(result.weights).toEqual(calculateMerecWeights(PHONES, PHONE_TYPES));
+    expect(result.ranks).toHaveLength(PHONES.length);
+  });
+
+  it("should reject a strategy weight outside [0, 1]", () => {
+    const error = catchError(() =>
+      calculateVikorRanking(PHONES, PHONE_TYPES, { strategyWeight: 1.5 })
+    );
+
+    expect(error.code).toBe("INVALID_OPTION");
+  });
+});
+
+describe("WASPAS Ranking", () => {
+  it("should combine the weighted sum and weighted product models", () => {
+    const result = calculateWaspasRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    // A1: (200/250 + 16/32 + 12/16 + 5/5) / 4
+    expect(result.normalizedMatrix[0]).toEqual([0.8, 0.5, 0.75, 1]);
+    expect(result.weightedSum[0]).toBeCloseTo(0.7625, 10);
+    expect(result.weightedProduct[0]).toBeCloseTo(
+      (0.8 * 0.5 * 0.75 * 1) ** 0.25,
+      10
+    );
+    expect(result.lambda).toBe(0.5);
+    result.scores.forEach((q, i) => {
+      expect(q).toBeCloseTo(
+        (result.weightedSum[i] + result.weightedProduct[i]) / 2,
+        10
+      );
+    });
+    expect(result.ranks).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should reduce to the weighted sum or product model at the λ bounds", () => {
+    const wsm = calculateWaspasRanking(PHONES, PHONE_TYPES, { lambda: 1 });
+    const wpm = calculateWaspasRanking(PHONES, PHONE_TYPES, { lambda: 0 });
+
+    expect(wsm.scores).toEqual(wsm.weightedSum);
+    expect(wpm.scores).toEqual(wpm.weightedProduct);
+  });
+
+  it("should treat the distance to a target as a cost", () => {
+    const result = calculateWaspasRanking(
+      [[18], [21], [30]],
+      [{ type: "target", target: 21 }],
+      { weights: [1] }
+    );
+
+    // Distances [3, 0, 9] become costs 1 + d / 9 = [4/3, 1, 2]
+    const column = result.normalizedMatrix.map((row) => row[0]);
+    [0.75, 1, 0.5].forEach((r, i) => expect(column[i]).toBeCloseTo(r, 12));
+    expect(result.ranks).toEqual([2, 1, 3]);
+  });
+
+  it("should keep the distances of alternatives outside the acceptable range", () => {
+    const result = calculateWaspasRanking(
+      [
+        [22, 5],
+        [25, 5],
+        [28, 5],
+        [18, 5],
+      ],
+      [{ type: "target", target: 22, acceptableRange: [21, 23] }, "benefit"],
+      { weights: [0.5, 0.5] }
+    );
+
+    // Distances [0, 2, 5, 3]: every alternative keeps a positive product score
+    const column = result.normalizedMatrix.map((row) => row[0]);
+    expect(column[0]).toBe(1);
+    expect(column[1]).toBeGreaterThan(column[3]);
+    expect(column[3]).toBeGreaterThan(column[2]);
+    expect(result.weightedProduct.every((q) => q > 0)).toBe(true);
+    expect(result.ranks).toEqual([1, 2, 4, 3]);
+  });
+
+  it("should reject λ outside [0, 1]", () => {
+    const error = catchError(() =>
+      calculateWaspasRanking(PHONES, PHONE_TYPES, { lambda: -0.1 })
+    );
+
+    expect(error.code).toBe("INVALID_OPTION");
+  });
+});
+
+describe("MULTIMOORA Ranking", () => {
+  it("should rank alternatives with the three MOORA systems", () => {
+    const result = calculateMultimooraRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    const norm = Math.sqrt(PHONES.reduce((sum, row) => sum + row[0] ** 2, 0));
+    expect(result.normalizedMatrix[0][0]).toBeCloseTo(250 / norm, 10);
+    expect(result.referencePoint[0]).toBeCloseTo((0.25 * 200) / norm, 10);
+
+    expect(result.ranksByRatioSystem).toEqual([2, 5, 1, 3, 4]);
+    expect(result.ranksByReferencePoint).toEqual([3, 3, 1, 2, 5]);
+    expect(result.ranksByFullMultiplicative).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should aggregate the systems with dominance theory", () => {
+    const result = calculateMultimooraRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    expect(result.dominanceScores).toEqual([3, 0, 4, 2, 1]);
+    expect(result.ranks).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should use MEREC weights by default", () => {
+    const result = calculateMultimooraRanking(PHONES, PHONE_TYPES);
+
+    expect(result.weights).toEqual(calculateMerecWeights(PHONES, PHONE_TYPES));
+    expect(result.fullMultiplicative.every((u) => u > 0)).toBe(true);
+  });
+
+  it("should keep the full multiplicative form bounded for in-range targets", () => {
+    const result = calculateMultimooraRanking(
+      [[22], [25], [28], [18]],
+      [{ type: "target", target: 22, acceptableRange: [21, 23] }],
+      { weights: [1] }
+    );
+
+    // Costs [1, 1.4, 2, 1.6] are vector-normalized, so U_i = 1 / r_i stays finite
+    const norm = Math.sqrt(1 + 1.4 ** 2 + 2 ** 2 + 1.6 ** 2);
+    expect(result.fullMultiplicative[0]).toBeCloseTo(norm, 10);
+    expect(result.ranksByFullMultiplicative).toEqual([1, 2, 4, 3]);
+  });
+});
+
+describe("EDAS Ranking", () => {
+  it("should measure distances from the average solution", () => {
+    const result = calculateEdasRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    expect(result.averageSolution).toEqual([250, 22.4, 12, 3.6]);
+
+    // A1: memory below average (benefit), camera above average (benefit)
+    expect(result.positiveDistances[0][3]).toBeCloseTo(1.4 / 3.6, 10);
+    expect(result.negativeDistances[0][1]).toBeCloseTo(6.4 / 22.4, 10);
+    expect(result.positiveScores[0]).toBeCloseTo(0.25 * (1.4 / 3.6), 10);
+    expect(result.negativeScores[0]).toBeCloseTo(0.25 * (6.4 / 22.4), 10);
+
+    // A2: price below average (cost) counts as a positive distance
+    expect(result.positiveDistances[1][0]).toBeCloseTo(50 / 250, 10);
+  });
+
+  it("should rank by the appraisal score", () => {
+    const result = calculateEdasRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    expect(Math.max(...result.normalizedPositiveScores)).toBe(1);
+    expect(Math.min(...result.normalizedNegativeScores)).toBe(0);
+    result.scores.forEach((score, i) => {
+      expect(score).toBeCloseTo(
+        (result.normalizedPositiveScores[i] +
+          result.normalizedNegativeScores[i]) /
+          2,
+        10
+      );
+    });
+    expect(result.ranks).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should apply the same input validation as calculateMerecWeights", () => {
+    expect(catchError(() => calculateEdasRanking([], PHONE_TYPES)).code).toBe(
+      "EMPTY_MATRIX"
+    );
+    expect(
+      catchError(() => calculateEdasRanking([[1, 2], [3]], ["benefit", "cost"]))
+        .code
+    ).toBe("ROW_LENGTH_MISMATCH");
+  });
+});
+
+describe("CODAS Ranking", () => {
+  it("should measure distances from the negative-ideal solution", () => {
+    const result = calculateCodasRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+
+    result.negativeIdealSolution.forEach((ns, j) => {
+      expect(ns).toBe(Math.min(...result.weightedMatrix.map((row) => row[j])));
+    });
+
+    const diffs = result.weightedMatrix[0].map(
+      (r, j) => r - result.negativeIdealSolution[j]
+    );
+    expect(result.euclideanDistances[0]).toBeCloseTo(
+      Math.sqrt(diffs.reduce((sum, d) => sum + d ** 2, 0)),
+      10
+    );
+    expect(result.taxicabDistances[0]).toBeCloseTo(
+      diffs.reduce((sum, d) => sum + Math.abs(d), 0),
+      10
+    );
+  });
+
+  it("should combine Euclidean and taxicab distances above the threshold", () => {
+    const result = calculateCodasRanking(PHONES, PHONE_TYPES, {
+      weights: EQUAL_WEIGHTS,
+    });
+    const { euclideanDistances: E, taxicabDistances: T } = result;
+
+    expect(result.threshold).toBe(0.02);
+    // |E_1 - E_2| >= τ: taxicab distance is included
+    expect(result.relativeAssessmentMatrix[0][1]).toBeCloseTo(
+      E[0] - E[1] + (T[0] - T[1]),
+      10
+    );
+    // |E_1 - E_4| < τ: Euclidean distance only
+    expect(result.relativeAssessmentMatrix[0][3]).toBeCloseTo(E[0] - E[3], 10);
+    expect(result.ranks).toEqual([2, 5, 1, 3, 4]);
+  });
+
+  it("should use MEREC weights by default", () => {
+    const result = calculateCodasRanking(PHONES, PHONE_TYPES);
+
+    expect(result.weights).toEqual(calculateMerecWeights(PHONES, PHONE_TYPES));
+    expect(result.scores.reduce((sum, h) => sum + h, 0)).toBeCloseTo(0, 10);
+  });
+
+  it("should keep the distances of alternatives outside the acceptable range", () => {
+    const result = calculateCodasRanking(
+      [[22], [25], [28], [18]],
+      [{ type: "target", target: 22, acceptableRange: [21, 23] }],
+      { weights: [1] }
+    );
+
+    // Costs [1, 1.4, 2, 1.6] normalize to min / v, the negative ideal is 1 / 2
+    [1 - 0.5, 1 / 1.4 - 0.5, 0, 1 / 1.6 - 0.5].forEach((e, i) =>
+      expect(result.euclideanDistances[i]).toBeCloseTo(e, 12)
+    );
+    expect(result.ranks).toEqual([1, 2, 4, 3]);
+  });
+
+  it("should reject a threshold outside [0, 1]", () => {
+    const error = catchError(() =>
+      calculateCodasRanking(PHONES, PHONE_TYPES, { threshold: 2 })
+    );
+
+    expect(error.code).toBe("INVALID_OPTION");
+  });
+});
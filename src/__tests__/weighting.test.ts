@@ -0,0 +1,972 @@
+import { calculateMerecWeights } from "../merec";
+import { calculateEntropyWeights } from "../weighting/entropy";
+import { calculateCriticWeights } from "../weighting/critic";
+import { calculateStandardDeviationWeights } from "../weighting/standardDeviation";
+import { compareWeightingMethods } from "../weighting/comparison";
+import { summarizeCriteriaWeights } from "../calculation/mer06-bobotAkhir";
+import { calculateAhpWeights } from "../weighting/ahp";
+import { combineWeights } from "../weighting/synthesis";
+import { calculateFuzzyMerecWeights } from "../weighting/fuzzyMerec";
+import { calculateIntervalMerecWeights } from "../weighting/intervalMerec";
+import { calculateGroupMerecWeights } from "../weighting/group";
+import { constrainWeights } from "../weighting/constraints";
+import { createRandom } from "../analysis/random";
+import { MerecDegenerateError } from "../errors";
+import {
+  DefuzzificationMethod,
+  Interval,
+  MerecDiagnostic,
+  TriangularFuzzyNumber,
+  WeightConstraints,
+} from "../types";
+import { PHONES, PHONE_TYPES, catchError } from "./helpers";
+
+describe("Entropy Weights", () => {
+  it("should weight criteria by their degree of divergence", () => {
+    const weights = calculateEntropyWeights(
+      [
+        [1, 2],
+        [3, 2],
+      ],
+      ["benefit", "cost"]
+    );
+
+    // The constant column carries no information
+    expect(weights).toEqual([1, 0]);
+  });
+
+  it("should match the entropy formula", () => {
+    const weights = calculateEntropyWeights(
+      [
+        [1, 1],
+        [3, 1],
+        [4, 2],
+      ],
+      ["benefit", "benefit"]
+    );
+
+    const divergence = (column: number[]) => {
+      const total = column.reduce((sum, v) => sum + v, 0);
+      const e =
+        -column.reduce((sum, v) => sum + (v / total) * Math.log(v / total), 0) /
+        Math.log(column.length);
+      return 1 - e;
+    };
+    const d1 = divergence([1, 3, 4]);
+    const d2 = divergence([1, 1, 2]);
+
+    expect(weights[0]).toBeCloseTo(d1 / (d1 + d2), 10);
+    expect(weights[1]).toBeCloseTo(d2 / (d1 + d2), 10);
+  });
+});
+
+describe("CRITIC Weights", () => {
+  it("should favour criteria in conflict with the others", () => {
+    const weights = calculateCriticWeights(
+      [
+        [1, 1, 3],
+        [2, 2, 2],
+        [3, 3, 1],
+      ],
+      ["benefit", "benefit", "benefit"]
+    );
+
+    // C1 and C2 are identical, C3 is perfectly anti-correlated with both
+    expect(weights[0]).toBeCloseTo(0.25, 10);
+    expect(weights[1]).toBeCloseTo(0.25, 10);
+    expect(weights[2]).toBeCloseTo(0.5, 10);
+  });
+
+  it("should normalize cost criteria so they are not anti-correlated", () => {
+    const weights = calculateCriticWeights(
+      [
+        [1, 3],
+        [2, 2],
+        [3, 1],
+      ],
+      ["benefit", "cost"]
+    );
+
+    expect(weights[0]).toBeCloseTo(0.5, 10);
+    expect(weights[1]).toBeCloseTo(0.5, 10);
+  });
+});
+
+describe("Standard Deviation Weights", () => {
+  it("should weight criteria by the dispersion of normalized values", () => {
+    const weights = calculateStandardDeviationWeights(
+      [
+        [1, 1, 1],
+        [2, 3, 1],
+        [3, 5, 3],
+      ],
+      ["benefit", "cost", "benefit"]
+    );
+
+    // C1 and C2 normalize to [0, 0.5, 1] (reversed), C3 to [0, 0, 1]
+    const sigma12 = Math.sqrt(1 / 6);
+    const sigma3 = Math.sqrt(2 / 9);
+    const total = 2 * sigma12 + sigma3;
+    expect(weights[0]).toBeCloseTo(sigma12 / total, 10);
+    expect(weights[1]).toBeCloseTo(sigma12 / total, 10);
+    expect(weights[2]).toBeCloseTo(sigma3 / total, 10);
+  });
+});
+
+describe("Alternative Weighting Methods", () => {
+  const methods = [
+    calculateMerecWeights,
+    calculateEntropyWeights,
+    calculateCriticWeights,
+    calculateStandardDeviationWeights,
+  ];
+
+  it.each(methods.map((method) => [method.name, method]))(
+    "%s should be a drop-in replacement for calculateMerecWeights",
+    (_, method) => {
+      const weights = method(PHONES, PHONE_TYPES);
+
+      expect(weights).toHaveLength(4);
+      expect(weights.every((w) => w >= 0 && w <= 1)).toBe(true);
+      expect(weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+    }
+  );
+
+  it.each(methods.slice(1).map((method) => [method.name, method]))(
+    "%s should reuse the MER-01 input checks",
+    (_, method) => {
+      expect(catchError(() => method([], PHONE_TYPES)).code).toBe(
+        "EMPTY_MATRIX"
+      );
+      expect(
+        catchError(() => method([[1, null]], ["benefit", "cost"])).code
+      ).toBe("MISSING_VALUE");
+      expect(
+        catchError(() =>
+          method([[1, -2]], ["benefit", "cost"], {
+            nonPositiveStrategy: "reject",
+          })
+        ).code
+      ).toBe("NON_POSITIVE_VALUE");
+    }
+  );
+
+  it.each(methods.slice(1).map((method) => [method.name, method]))(
+    "%s should fall back to equal weights for a constant matrix",
+    (_, method) => {
+      const warnings: MerecDiagnostic[] = [];
+      const weights = method(
+        [
+          [2, 5],
+          [2, 5],
+        ],
+        ["benefit", { type: "target", target: 4 }],
+        { logger: (d) => warnings.push(d) }
+      );
+
+      expect(weights).toEqual([0.5, 0.5]);
+      expect(warnings.map((d) => d.code)).toContain("EQUAL_WEIGHT_FALLBACK");
+    }
+  );
+
+  it.each(methods.slice(1).map((method) => [method.name, method]))(
+    "%s should apply the weight constraints",
+    (_, method) => {
+      const warnings: MerecDiagnostic[] = [];
+      const weights = method(PHONES, PHONE_TYPES, {
+        weightConstraints: { max: 0.27 },
+        logger: (d) => warnings.push(d),
+      });
+
+      expect(weights).toEqual(
+        constrainWeights(method(PHONES, PHONE_TYPES), { max: 0.27 }).weights
+      );
+      expect(weights.every((w) => w <= 0.27 + 1e-9)).toBe(true);
+      expect(warnings.map((d) => d.code)).toContain("WEIGHT_CONSTRAINED");
+    }
+  );
+
+  it.each(methods.slice(1).map((method) => [method.name, method]))(
+    "%s should reject a MER-02 normalization scheme",
+    (_, method) => {
+      expect(
+        catchError(() =>
+          method(PHONES, PHONE_TYPES, { normalization: "vector" })
+        ).code
+      ).toBe("INVALID_OPTION");
+    }
+  );
+});
+
+describe("Weighting Method Comparison", () => {
+  it("should compute rank correlations between every pair of methods", () => {
+    const comparison = compareWeightingMethods([0.4, 0.3, 0.2, 0.1], {
+      same: [0.5, 0.3, 0.15, 0.05],
+      reversed: [0.1, 0.2, 0.3, 0.4],
+      swapped: [0.3, 0.4, 0.2, 0.1],
+    });
+
+    expect(comparison.methods).toEqual([
+      "merec",
+      "same",
+      "reversed",
+      "swapped",
+    ]);
+    expect(comparison.correlations).toHaveLength(6);
+
+    const [same, reversed, swapped] = comparison.correlations;
+    expect(same).toMatchObject({ methodA: "merec", methodB: "same" });
+    expect(same.spearman).toBe(1);
+    expect(same.kendall).toBe(1);
+    expect(same.pearson).toBeGreaterThan(0.9);
+
+    expect(reversed.spearman).toBe(-1);
+    expect(reversed.kendall).toBe(-1);
+    expect(reversed.pearson).toBeCloseTo(-1, 10);
+
+    // One adjacent swap: ρ = 1 - 6·2 / (4·15), τ = (5 - 1) / 6
+    expect(swapped.spearman).toBeCloseTo(0.8, 10);
+    expect(swapped.kendall).toBeCloseTo(2 / 3, 10);
+  });
+
+  it("should rank criteria like summarizeCriteriaWeights", () => {
+    const weights = [0.2, 0.5, 0.3];
+    const comparison = compareWeightingMethods(weights, {});
+    const summary = summarizeCriteriaWeights(weights, comparison.criteria);
+
+    expect(comparison.ranks.merec).toEqual([3, 1, 2]);
+    summary.forEach((item) => {
+      const j = comparison.criteria.findIndex((c) => c.id === item.id);
+      expect(comparison.ranks.merec[j]).toBe(item.ranking);
+    });
+  });
+
+  it("should give tied weights their average rank", () => {
+    const comparison = compareWeightingMethods([0.3, 0.3, 0.4], {
+      other: [0.5, 0.3, 0.2],
+    });
+    const [correlation] = comparison.correlations;
+
+    expect(comparison.ranks.merec).toEqual([2.5, 2.5, 1]);
+    expect(comparison.ranks.other).toEqual([1, 2, 3]);
+    // Pearson correlation of [2.5, 2.5, 1] and [1, 2, 3]
+    expect(correlation.spearman).toBeCloseTo(-Math.sqrt(3) / 2, 10);
+    // Tau-b: 2 discordant pairs, 1 pair tied in MEREC only
+    expect(correlation.kendall).toBeCloseTo(-2 / Math.sqrt(2 * 3), 10);
+  });
+
+  it("should report rank shifts relative to MEREC and a consensus ordering", () => {
+    const comparison = compareWeightingMethods(
+      [0.5, 0.3, 0.2],
+      { entropy: [0.2, 0.3, 0.5], critic: [0.45, 0.2, 0.35] },
+      {
+        criteria: [
+          { id: "price", name: "Harga", type: "cost" },
+          { id: "quality", name: "Kualitas", type: "benefit" },
+          { id: "delivery", name: "Pengiriman", type: "cost" },
+        ],
+      }
+    );
+
+    expect(comparison.rankShifts.merec).toEqual([0, 0, 0]);
+    expect(comparison.rankShifts.entropy).toEqual([2, 0, -2]);
+    expect(comparison.rankShifts.critic).toEqual([0, 1, -1]);
+
+    // Mean ranks: price 5/3, quality 7/3, delivery 2
+    expect(comparison.consensusRanking.map((c) => c.id)).toEqual([
+      "price",
+      "delivery",
+      "quality",
+    ]);
+    expect(comparison.consensusRanking[0]).toMatchObject({
+      name: "Harga",
+      criterionIndex: 0,
+      ranking: 1,
+    });
+    expect(comparison.consensusRanking[0].meanRank).toBeCloseTo(5 / 3, 10);
+  });
+
+  it("should compare MEREC with the other weighting methods on the same matrix", () => {
+    const comparison = compareWeightingMethods(
+      calculateMerecWeights(PHONES, PHONE_TYPES),
+      {
+        entropy: calculateEntropyWeights(PHONES, PHONE_TYPES),
+        critic: calculateCriticWeights(PHONES, PHONE_TYPES),
+        sd: calculateStandardDeviationWeights(PHONES, PHONE_TYPES),
+      }
+    );
+
+    expect(comparison.correlations).toHaveLength(6);
+    comparison.correlations.forEach((c) => {
+      expect(Math.abs(c.spearman)).toBeLessThanOrEqual(1);
+      expect(Math.abs(c.kendall)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("should reject invalid weight vectors", () => {
+    expect(
+      catchError(() => compareWeightingMethods([0.5, 0.5], { other: [1] })).code
+    ).toBe("COLUMN_COUNT_MISMATCH");
+    expect(
+      catchError(() =>
+        compareWeightingMethods([0.5, 0.5], { other: [0.5, 0.6] })
+      ).code
+    ).toBe("WEIGHT_SUM_MISMATCH");
+    expect(
+      catchError(() =>
+        compareWeightingMethods([0.5, 0.5], { merec: [0.5, 0.5] })
+      ).code
+    ).toBe("INVALID_OPTION");
+  });
+});
+
+describe("AHP Weights", () => {
+  const JUDGMENTS = [
+    [1, 3, 5],
+    [1 / 3, 1, 3],
+    [1 / 5, 1 / 3, 1],
+  ];
+
+  it("should derive priorities and the consistency ratio", () => {
+    const result = calculateAhpWeights(JUDGMENTS);
+
+    expect(result.method).toBe("eigenvector");
+    expect(result.weights[0]).toBeCloseTo(0.637, 3);
+    expect(result.weights[1]).toBeCloseTo(0.2583, 3);
+    expect(result.weights[2]).toBeCloseTo(0.1047, 3);
+    expect(result.lambdaMax).toBeCloseTo(3.0385, 4);
+    expect(result.randomIndex).toBe(0.58);
+    expect(result.consistencyRatio).toBeCloseTo(0.0332, 4);
+  });
+
+  it("should return exact priorities for a perfectly consistent matrix", () => {
+    const priorities = [0.5, 0.25, 0.15, 0.1];
+    const consistent = priorities.map((p_i) =>
+      priorities.map((p_j) => p_i / p_j)
+    );
+
+    for (const method of ["eigenvector", "geometricMean"] as const) {
+      const result = calculateAhpWeights(consistent, { method });
+      result.weights.forEach((w, j) =>
+        expect(w).toBeCloseTo(priorities[j], 10)
+      );
+      expect(result.lambdaMax).toBeCloseTo(4, 10);
+      expect(result.consistencyRatio).toBeCloseTo(0, 10);
+    }
+  });
+
+  it("should reject inconsistent judgments unless overridden", () => {
+    const cyclic = [
+      [1, 5, 1 / 5],
+      [1 / 5, 1, 5],
+      [5, 1 / 5, 1],
+    ];
+
+    const error = catchError(() => calculateAhpWeights(cyclic));
+    expect(error).toBeInstanceOf(MerecDegenerateError);
+    expect(error.code).toBe("INCONSISTENT_JUDGMENTS");
+    expect(error.context.value).toBeGreaterThan(0.1);
+
+    const result = calculateAhpWeights(cyclic, {
+      maxConsistencyRatio: Infinity,
+    });
+    result.weights.forEach((w) => expect(w).toBeCloseTo(1 / 3, 10));
+  });
+
+  it("should validate the pairwise matrix", () => {
+    expect(catchError(() => calculateAhpWeights([])).code).toBe("EMPTY_MATRIX");
+    expect(catchError(() => calculateAhpWeights([[1, 2], [0.5]])).code).toBe(
+      "ROW_LENGTH_MISMATCH"
+    );
+    expect(
+      catchError(() =>
+        calculateAhpWeights([
+          [1, 0],
+          [0, 1],
+        ])
+      ).code
+    ).toBe("NON_POSITIVE_VALUE");
+    expect(
+      catchError(() =>
+        calculateAhpWeights([
+          [1, 3],
+          [3, 1],
+        ])
+      ).context
+    ).toEqual({ row: 1, column: 0, value: 3 });
+    expect(catchError(() => calculateAhpWeights([[2]])).code).toBe(
+      "NON_RECIPROCAL_JUDGMENT"
+    );
+
+    // Rounded reciprocals such as 0.333 for 1/3 are accepted
+    expect(
+      calculateAhpWeights([
+        [1, 3],
+        [0.333, 1],
+      ]).weights[0]
+    ).toBeCloseTo(0.75, 3);
+  });
+});
+
+describe("Weight Synthesis", () => {
+  it("should blend subjective and objective weights additively", () => {
+    expect(combineWeights([0.6, 0.3, 0.1], [0.2, 0.3, 0.5])).toEqual([
+      0.4, 0.3, 0.3,
+    ]);
+
+    const weights = combineWeights([0.6, 0.3, 0.1], [0.2, 0.3, 0.5], {
+      alpha: 0.25,
+    });
+    expect(weights[0]).toBeCloseTo(0.3, 10);
+    expect(weights[2]).toBeCloseTo(0.4, 10);
+  });
+
+  it("should synthesize weights multiplicatively", () => {
+    const weights = combineWeights([0.6, 0.3, 0.1], [0.2, 0.3, 0.5], {
+      synthesis: "multiplicative",
+    });
+
+    // s_j o_j = [0.12, 0.09, 0.05]
+    expect(weights[0]).toBeCloseTo(0.12 / 0.26, 10);
+    expect(weights[1]).toBeCloseTo(0.09 / 0.26, 10);
+    expect(weights[2]).toBeCloseTo(0.05 / 0.26, 10);
+  });
+
+  it("should combine AHP priorities with MEREC weights", () => {
+    const ahp = calculateAhpWeights([
+      [1, 3, 1, 5],
+      [1 / 3, 1, 1 / 3, 2],
+      [1, 3, 1, 4],
+      [1 / 5, 1 / 2, 1 / 4, 1],
+    ]);
+    const merec = calculateMerecWeights(PHONES, PHONE_TYPES);
+
+    expect(combineWeights(ahp.weights, merec, { alpha: 1 })).toEqual(
+      ahp.weights
+    );
+    expect(combineWeights(ahp.weights, merec, { alpha: 0 })).toEqual(merec);
+  });
+
+  it("should reject invalid inputs", () => {
+    expect(catchError(() => combineWeights([0.5, 0.5], [1])).code).toBe(
+      "COLUMN_COUNT_MISMATCH"
+    );
+    expect(
+      catchError(() => combineWeights([0.5, 0.5], [0.5, 0.5], { alpha: 2 }))
+        .code
+    ).toBe("INVALID_OPTION");
+    expect(catchError(() => combineWeights([0.9, 0.5], [0.5, 0.5])).code).toBe(
+      "WEIGHT_SUM_MISMATCH"
+    );
+  });
+});
+
+describe("Fuzzy MEREC", () => {
+  const FUZZY_PHONES = PHONES.map((row) =>
+    row.map((v): TriangularFuzzyNumber => [0.9 * v, v, 1.1 * v])
+  );
+
+  it("should reduce to crisp MEREC when every rating is crisp", () => {
+    const crisp = PHONES.map((row) =>
+      row.map((v): TriangularFuzzyNumber => [v, v, v])
+    );
+    const result = calculateFuzzyMerecWeights(crisp, PHONE_TYPES);
+    const expected = calculateMerecWeights(PHONES, PHONE_TYPES);
+
+    result.weights.forEach((w, j) => expect(w).toBeCloseTo(expected[j], 12));
+    result.fuzzyWeights.forEach(([l, m, u], j) => {
+      expect(l).toBeCloseTo(expected[j], 12);
+      expect(m).toBeCloseTo(expected[j], 12);
+      expect(u).toBeCloseTo(expected[j], 12);
+    });
+  });
+
+  it("should keep every fuzzy intermediate result ordered", () => {
+    const result = calculateFuzzyMerecWeights(FUZZY_PHONES, PHONE_TYPES);
+    const ordered = ([l, m, u]: TriangularFuzzyNumber) => l <= m && m <= u;
+
+    expect(result.normalizedMatrix.flat().every(ordered)).toBe(true);
+    expect(result.overallPerformances.every(ordered)).toBe(true);
+    expect(result.removalPerformances.flat().every(ordered)).toBe(true);
+    expect(result.absoluteDeviations.every(ordered)).toBe(true);
+    expect(result.fuzzyWeights.every(ordered)).toBe(true);
+  });
+
+  it("should normalize benefit and cost ratings with the fuzzy extremes", () => {
+    const result = calculateFuzzyMerecWeights(
+      [
+        [
+          [2, 3, 4],
+          [2, 3, 4],
+        ],
+        [
+          [4, 5, 8],
+          [4, 5, 8],
+        ],
+      ],
+      ["benefit", "cost"]
+    );
+
+    expect(result.normalizedMatrix[1][0]).toEqual([2 / 8, 2 / 5, 2 / 4]);
+    expect(result.normalizedMatrix[0][1]).toEqual([2 / 8, 3 / 8, 4 / 8]);
+  });
+
+  it("should defuzzify with the centroid or the graded mean", () => {
+    const centroid = calculateFuzzyMerecWeights(FUZZY_PHONES, PHONE_TYPES);
+    const gradedMean = calculateFuzzyMerecWeights(FUZZY_PHONES, PHONE_TYPES, {
+      defuzzification: "gradedMean",
+    });
+
+    const expected = (
+      weights: TriangularFuzzyNumber[],
+      crisp: (w: TriangularFuzzyNumber) => number
+    ) => {
+      const total = weights.reduce((sum, w) => sum + crisp(w), 0);
+      return weights.map((w) => crisp(w) / total);
+    };
+
+    expect(centroid.defuzzification).toBe("centroid");
+    expect(centroid.weights).toEqual(
+      expected(centroid.fuzzyWeights, ([l, m, u]) => (l + m + u) / 3)
+    );
+    expect(gradedMean.weights).toEqual(
+      expected(gradedMean.fuzzyWeights, ([l, m, u]) => (l + 4 * m + u) / 6)
+    );
+  });
+
+  it("should validate fuzzy ratings", () => {
+    expect(
+      catchError(() => calculateFuzzyMerecWeights([[[3, 2, 4]]], ["benefit"]))
+        .code
+    ).toBe("INVALID_FUZZY_NUMBER");
+    expect(
+      catchError(() =>
+        calculateFuzzyMerecWeights(
+          [[[1, 2] as unknown as TriangularFuzzyNumber]],
+          ["benefit"]
+        )
+      ).code
+    ).toBe("INVALID_FUZZY_NUMBER");
+    expect(
+      catchError(() => calculateFuzzyMerecWeights([[[0, 1, 2]]], ["cost"]))
+        .context
+    ).toEqual({ row: 0, column: 0, value: 0 });
+    expect(
+      catchError(() =>
+        calculateFuzzyMerecWeights(
+          [[[1, 2, 3]]],
+          [{ type: "target", target: 2 }]
+        )
+      ).code
+    ).toBe("INVALID_CRITERIA");
+    expect(
+      catchError(() =>
+        calculateFuzzyMerecWeights(FUZZY_PHONES, PHONE_TYPES, {
+          defuzzification: "mode" as DefuzzificationMethod,
+        })
+      ).code
+    ).toBe("INVALID_OPTION");
+  });
+});
+
+describe("Interval MEREC", () => {
+  const TOLERANT_PHONES = PHONES.map((row) =>
+    row.map((v): Interval => [0.95 * v, 1.05 * v])
+  );
+
+  it("should reduce to crisp MEREC for degenerate intervals", () => {
+    const result = calculateIntervalMerecWeights(
+      PHONES.map((row) => row.map((v): Interval => [v, v])),
+      PHONE_TYPES
+    );
+    const expected = calculateMerecWeights(PHONES, PHONE_TYPES);
+
+    result.weights.forEach((w, j) => expect(w).toBeCloseTo(expected[j], 12));
+    result.intervalWeights.forEach(([lower, upper], j) => {
+      expect(lower).toBeCloseTo(expected[j], 12);
+      expect(upper).toBeCloseTo(expected[j], 12);
+    });
+  });
+
+  it("should propagate intervals through every step", () => {
+    const result = calculateIntervalMerecWeights(TOLERANT_PHONES, PHONE_TYPES);
+    const ordered = ([lower, upper]: Interval) => lower <= upper;
+
+    expect(result.normalizedMatrix.flat().every(ordered)).toBe(true);
+    expect(result.overallPerformances.every(ordered)).toBe(true);
+    expect(result.removalPerformances.flat().every(ordered)).toBe(true);
+    expect(result.absoluteDeviations.every(ordered)).toBe(true);
+
+    // The point estimate lies inside the interval weights
+    result.intervalWeights.forEach(([lower, upper], j) => {
+      expect(lower).toBeLessThan(upper);
+      expect(result.weights[j]).toBeGreaterThanOrEqual(lower);
+      expect(result.weights[j]).toBeLessThanOrEqual(upper);
+    });
+    expect(result.weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 10);
+  });
+
+  it("should enclose the MEREC weights of every matrix within the intervals", () => {
+    const result = calculateIntervalMerecWeights(TOLERANT_PHONES, PHONE_TYPES);
+    const random = createRandom(11);
+
+    // Random points inside the intervals, every second one on a random vertex
+    for (let sample = 0; sample < 1000; sample++) {
+      const onVertex = sample % 2 === 1;
+      const crisp = TOLERANT_PHONES.map((row) =>
+        row.map(([lower, upper]) => {
+          const t = onVertex ? Math.round(random()) : random();
+          return lower + (upper - lower) * t;
+        })
+      );
+
+      calculateMerecWeights(crisp, PHONE_TYPES).forEach((w, j) => {
+        const [lower, upper] = result.intervalWeights[j];
+        expect(w).toBeGreaterThanOrEqual(lower - 1e-12);
+        expect(w).toBeLessThanOrEqual(upper + 1e-12);
+      });
+    }
+  });
+
+  it("should widen the interval weights with the measurement tolerance", () => {
+    const width = (tolerance: number) =>
+      calculateIntervalMerecWeights(
+        PHONES.map((row) =>
+          row.map((v): Interval => [(1 - tolerance) * v, (1 + tolerance) * v])
+        ),
+        PHONE_TYPES
+      ).intervalWeights.map(([lower, upper]) => upper - lower);
+
+    const narrow = width(0.01);
+    const wide = width(0.05);
+    narrow.forEach((w, j) => expect(wide[j]).toBeGreaterThan(w));
+  });
+
+  it("should normalize benefit and cost intervals with the interval extremes", () => {
+    const result = calculateIntervalMerecWeights(
+      [
+        [
+          [2, 4],
+          [2, 4],
+        ],
+        [
+          [5, 8],
+          [5, 8],
+        ],
+      ],
+      ["benefit", "cost"]
+    );
+
+    // [4, 5] is inside the intervals: benefit min / x = 4 / 5 and cost x / max = 4 / 5
+    expect(result.normalizedMatrix[1][0]).toEqual([2 / 8, 4 / 5]);
+    expect(result.normalizedMatrix[0][1]).toEqual([2 / 8, 4 / 5]);
+    expect(result.normalizedMatrix[0][0]).toEqual([2 / 4, 1]);
+  });
+
+  it("should validate interval measurements", () => {
+    expect(
+      catchError(() => calculateIntervalMerecWeights([[[3, 2]]], ["benefit"]))
+        .code
+    ).toBe("INVALID_INTERVAL");
+    expect(
+      catchError(() => calculateIntervalMerecWeights([[[-1, 2]]], ["benefit"]))
+        .code
+    ).toBe("NON_POSITIVE_VALUE");
+    expect(
+      catchError(() =>
+        calculateIntervalMerecWeights(
+          [
+            [[1, 2]],
+            [
+              [1, 2],
+              [1, 2],
+            ],
+          ],
+          ["cost"]
+        )
+      ).code
+    ).toBe("ROW_LENGTH_MISMATCH");
+  });
+});
+
+describe("Group MEREC", () => {
+  const SECOND_EVALUATOR = [
+    [260, 16, 12, 4],
+    [210, 32, 8, 3],
+    [290, 32, 12, 5],
+    [270, 16, 8, 4],
+    [230, 16, 16, 3],
+  ];
+
+  it("should match MEREC when every evaluator agrees", () => {
+    const result = calculateGroupMerecWeights([PHONES, PHONES], PHONE_TYPES);
+
+    expect(result.weights).toEqual(calculateMerecWeights(PHONES, PHONE_TYPES));
+    expect(result.evaluatorConsensus).toEqual([1, 1]);
+    expect(result.consensusDegree).toBe(1);
+  });
+
+  it("should aggregate matrices with weighted arithmetic or geometric means", () => {
+    const options = { evaluatorWeights: [3, 1] };
+    const arithmetic = calculateGroupMerecWeights(
+      [PHONES, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      options
+    );
+    const geometric = calculateGroupMerecWeights(
+      [PHONES, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      { ...options, mean: "geometric" }
+    );
+
+    expect(arithmetic.stage).toBe("matrix");
+    expect(arithmetic.evaluatorWeights).toEqual([0.75, 0.25]);
+    expect(arithmetic.aggregatedMatrix?.[0][0]).toBeCloseTo(252.5, 10);
+    expect(geometric.aggregatedMatrix?.[0][0]).toBeCloseTo(
+      250 ** 0.75 * 260 ** 0.25,
+      10
+    );
+    expect(arithmetic.weights).toEqual(
+      calculateMerecWeights(
+        arithmetic.aggregatedMatrix as number[][],
+        PHONE_TYPES
+      )
+    );
+  });
+
+  it("should aggregate individual weight vectors after weighting", () => {
+    const individual = [
+      calculateMerecWeights(PHONES, PHONE_TYPES),
+      calculateMerecWeights(SECOND_EVALUATOR, PHONE_TYPES),
+    ];
+    const arithmetic = calculateGroupMerecWeights(
+      [PHONES, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      { stage: "weights", evaluatorWeights: [1, 3] }
+    );
+    const geometric = calculateGroupMerecWeights(
+      [PHONES, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      { stage: "weights", mean: "geometric" }
+    );
+
+    expect(arithmetic.aggregatedMatrix).toBeUndefined();
+    expect(arithmetic.individualWeights).toEqual(individual);
+    arithmetic.weights.forEach((w, j) =>
+      expect(w).toBeCloseTo(
+        0.25 * individual[0][j] + 0.75 * individual[1][j],
+        12
+      )
+    );
+
+    const products = individual[0].map((w, j) =>
+      Math.sqrt(w * individual[1][j])
+    );
+    const total = products.reduce((sum, p) => sum + p, 0);
+    geometric.weights.forEach((w, j) =>
+      expect(w).toBeCloseTo(products[j] / total, 12)
+    );
+  });
+
+  it("should report the consensus degree between evaluators", () => {
+    const result = calculateGroupMerecWeights(
+      [PHONES, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      { stage: "weights" }
+    );
+
+    // Each evaluator is half the total variation distance away from the mean
+    const [first, second] = result.individualWeights as number[][];
+    const distance =
+      first.reduce((sum, w, j) => sum + Math.abs(w - second[j]), 0) / 2;
+    expect(result.evaluatorConsensus[0]).toBeCloseTo(1 - distance / 2, 12);
+    expect(result.evaluatorConsensus[1]).toBeCloseTo(1 - distance / 2, 12);
+    expect(result.consensusDegree).toBeCloseTo(1 - distance / 2, 12);
+  });
+
+  it("should leave missing cells out of the matrix aggregation", () => {
+    const withGap = PHONES.map((row) => [...row] as (number | null)[]);
+    withGap[0][0] = null;
+
+    const result = calculateGroupMerecWeights(
+      [withGap, SECOND_EVALUATOR],
+      PHONE_TYPES,
+      { missingValuePolicy: "mean" }
+    );
+
+    expect(result.aggregatedMatrix?.[0][0]).toBe(260);
+    expect(result.aggregatedMatrix?.[1][0]).toBe(205);
+    // The "mean" policy imputes the evaluator's own matrix for the consensus
+    expect(result.individualWeights[0]).toEqual(
+      calculateMerecWeights(withGap, PHONE_TYPES, {
+        missingValuePolicy: "mean",
+      })
+    );
+    expect(result.evaluatorConsensus.every((c) => c !== null)).toBe(true);
+  });
+
+  it("should aggregate incomplete matrices under the default missing value policy", () => {
+    const withGap = PHONES.map((row) => [...row] as (number | null)[]);
+    withGap[0][0] = null;
+
+    const result = calculateGroupMerecWeights(
+      [withGap, SECOND_EVALUATOR, PHONES],
+      PHONE_TYPES,
+      { evaluatorWeights: [1, 1, 0] }
+    );
+
+    expect(result.aggregatedMatrix?.[0][0]).toBe(260);
+    expect(result.individualWeights[0]).toBeNull();
+    expect(result.individualWeights[1]).toEqual(
+      calculateMerecWeights(SECOND_EVALUATOR, PHONE_TYPES)
+    );
+    expect(result.evaluatorConsensus[0]).toBeNull();
+    // Only the second evaluator carries weight among the complete matrices
+    expect(result.consensusDegree).toBe(result.evaluatorConsensus[1]);
+  });
+
+  it("should reject incomplete matrices when aggregating weights by default", () => {
+    const withGap = PHONES.map((row) => [...row] as (number | null)[]);
+    withGap[0][0] = null;
+
+    expect(
+      catchError(() =>
+        calculateGroupMerecWeights([withGap, SECOND_EVALUATOR], PHONE_TYPES, {
+          stage: "weights",
+        })
+      ).code
+    ).toBe("MISSING_VALUE");
+  });
+
+  it("should validate the evaluators' input", () => {
+    expect(
+      catchError(() => calculateGroupMerecWeights([], PHONE_TYPES)).code
+    ).toBe("EMPTY_MATRIX");
+    expect(
+      catchError(() =>
+        calculateGroupMerecWeights([PHONES, PHONES.slice(1)], PHONE_TYPES)
+      ).code
+    ).toBe("ROW_COUNT_MISMATCH");
+    expect(
+      catchError(() =>
+        calculateGroupMerecWeights([PHONES, PHONES], PHONE_TYPES, {
+          evaluatorWeights: [1],
+        })
+      ).code
+    ).toBe("INVALID_OPTION");
+    expect(
+      catchError(() =>
+        calculateGroupMerecWeights([PHONES, PHONES], PHONE_TYPES, {
+          evaluatorWeights: [0, 0],
+        })
+      ).code
+    ).toBe("INVALID_OPTION");
+    expect(
+      catchError(() =>
+        calculateGroupMerecWeights([[[1, -2]], [[1, 2]]], ["benefit", "cost"], {
+          mean: "geometric",
+        })
+      ).code
+    ).toBe("NON_POSITIVE_VALUE");
+  });
+});
+
+describe("Weight Constraints", () => {
+  it("should project onto the bounded simplex", () => {
+    const result = constrainWeights([0.05, 0.15, 0.3, 0.5], {
+      min: 0.1,
+      max: 0.4,
+    });
+
+    // w_j = clamp(v_j - τ, 0.1, 0.4) with τ = -0.025
+    result.weights.forEach((w, j) =>
+      expect(w).toBeCloseTo([0.1, 0.175, 0.325, 0.4][j], 12)
+    );
+    expect(result.adjustments[3]).toBeCloseTo(-0.1, 12);
+    expect(result.distance).toBeCloseTo(Math.sqrt(0.01375), 12);
+    expect(result.activeConstraints.map((c) => [c.id, c.bound])).toEqual([
+      ["C1", "lower"],
+      ["C4", "upper"],
+    ]);
+  });
+
+  it("should satisfy overlapping group constraints with the closest weights", () => {
+    const result = constrainWeights([0.1, 0.2, 0.3, 0.4], {
+      groups: [
+        { name: "safety", criteria: ["C1", "C2"], min: 0.4 },
+        { criteria: ["C2", "C3"], max: 0.3 },
+      ],
+    });
+
+    // KKT solution: w = v + λ(1,1,0,0) - μ(0,1,1,0) - τ(1,1,1,1)
+    result.weights.forEach((w, j) =>
+      expect(w).toBeCloseTo([0.25, 0.15, 0.15, 0.45][j], 9)
+    );
+    expect(result.activeConstraints).toEqual([
+      {
+        kind: "group",
+        id: "safety",
+        criteria: ["C1", "C2"],
+        bound: "lower",
+        limit: 0.4,
+        unconstrainedValue: expect.closeTo(0.3, 12),
+      },
+      {
+        kind: "group",
+        id: "G2",
+        criteria: ["C2", "C3"],
+        bound: "upper",
+        limit: 0.3,
+        unconstrainedValue: 0.5,
+      },
+    ]);
+  });
+
+  it("should combine per-criterion bounds with the defaults", () => {
+    const result = constrainWeights(
+      [0.4, 0.3, 0.2, 0.1],
+      { max: 0.35, bounds: { price: { min: 0.15, max: 0.5 } } },
+      ["storage", "camera", "battery", "price"]
+    );
+
+    expect(result.weights[0]).toBeCloseTo(0.35, 12);
+    expect(result.weights[3]).toBeCloseTo(0.15, 12);
+    expect(result.weights.reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 12);
+  });
+
+  it("should reject invalid or infeasible constraints", () => {
+    const invalid: WeightConstraints[] = [
+      { min: 0.5, max: 0.4 },
+      { max: 1.2 },
+      { bounds: { C9: { min: 0.1 } } },
+      { groups: [{ criteria: [] }] },
+      { groups: [{ criteria: ["C1", "C1"], min: 0.2 }] },
+      { groups: [{ criteria: ["C5"], min: 0.2 }] },
+    ];
+    invalid.forEach((constraints) =>
+      expect(
+        catchError(() =>
+          constrainWeights([0.25, 0.25, 0.25, 0.25], constraints)
+        ).code
+      ).toBe("INVALID_OPTION")
+    );
+
+    const infeasible: WeightConstraints[] = [
+      { min: 0.3 },
+      { max: 0.2 },
+      {
+        groups: [
+          { criteria: ["C1", "C2"], min: 0.8 },
+          { criteria: ["C3", "C4"], min: 0.5 },
+        ],
+      },
+    ];
+    infeasible.forEach((constraints) =>
+      expect(
+        catchError(() =>
+          constrainWeights([0.25, 0.25, 0.25, 0.25], constraints)
+        ).code
+      ).toBe("INFEASIBLE_CONSTRAINTS")
+    );
+  });
+});
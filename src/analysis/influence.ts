@@ -0,0 +1,87 @@
+/**
+ * Leave-one-alternative-out (jackknife) influence analysis of MEREC weights
+ */
+
+import {
+  AlternativeInfluence,
+  CriteriaSpec,
+  InfluenceResult,
+  MatrixValue,
+  MerecOptions,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { calculateMerecDetailed, calculateMerecWeights } from "../merec";
+import { rankCriteria } from "../weighting/input";
+
+/**
+ * Recompute MEREC weights with each alternative removed in turn
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, value handling, normalization scheme)
+ * @returns Influence of every alternative on every weight and the jackknife standard errors
+ */
+export function analyzeAlternativeInfluence(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): InfluenceResult {
+  const base = calculateMerecDetailed(matrix, criteriaTypes, options);
+  const baseWeights = base.weights;
+  const baseRanks = rankCriteria(baseWeights);
+
+  const m = matrix.length; // jumlah alternatif
+  const n = baseWeights.length; // jumlah kriteria
+
+  if (m < 2) {
+    throw new MerecInputError(
+      "EMPTY_ALTERNATIVES",
+      "Analisis pengaruh alternatif membutuhkan minimal 2 alternatif",
+      { expected: 2, actual: m }
+    );
+  }
+
+  // Diagnostik hanya dilaporkan untuk perhitungan dengan semua alternatif
+  const leaveOutOptions: MerecOptions = { ...options, logger: undefined };
+
+  const alternatives: AlternativeInfluence[] = matrix.map((_, i) => {
+    const weights = calculateMerecWeights(
+      matrix.filter((__, k) => k !== i),
+      criteriaTypes,
+      leaveOutOptions
+    );
+    const influence = weights.map((w, j) => w - baseWeights[j]);
+    const ranks = rankCriteria(weights);
+
+    return {
+      alternativeIndex: i,
+      alternativeId: `A${i + 1}`,
+      weights,
+      influence,
+      totalInfluence: influence.reduce((sum, d) => sum + Math.abs(d), 0) / 2,
+      ranks,
+      rankChanged: ranks.some((rank, j) => rank !== baseRanks[j]),
+    };
+  });
+
+  // SE_j = √((m - 1) / m · Σ_i (w^(-i)_j - w̄_j)²)
+  const standardErrors: number[] = [];
+  for (let j = 0; j < n; j++) {
+    const mean = alternatives.reduce((sum, a) => sum + a.weights[j], 0) / m;
+    const sumSquared = alternatives.reduce(
+      (sum, a) => sum + (a.weights[j] - mean) ** 2,
+      0
+    );
+    standardErrors.push(Math.sqrt(((m - 1) / m) * sumSquared));
+  }
+
+  return {
+    baseWeights,
+    baseRanks,
+    alternatives,
+    standardErrors,
+    rankChangingAlternatives: alternatives
+      .filter((a) => a.rankChanged)
+      .map((a) => a.alternativeIndex),
+    warnings: base.warnings,
+  };
+}
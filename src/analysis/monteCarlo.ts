@@ -0,0 +1,249 @@
+/**
+ * Monte Carlo uncertainty quantification of MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  Interval,
+  MatrixValue,
+  MerecOptions,
+  MonteCarloOptions,
+  MonteCarloResult,
+  NoiseDistribution,
+  NoiseSpecification,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { calculateMerecDetailed, calculateMerecWeights } from "../merec";
+import { resolveUnitIntervalOption } from "../ranking/input";
+import { rankCriteria } from "../weighting/input";
+import {
+  RandomSource,
+  calculatePercentile,
+  createRandom,
+  sampleStandardNormal,
+  sampleTriangular,
+} from "./random";
+
+/**
+ * Simulate noisy decision matrices and summarize the distribution of the MEREC weights
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param noise - One noise distribution for every cell, one per column or one per cell
+ * @param options - Optional MEREC options plus iterations, seed and confidence level
+ * @returns Mean, standard deviation, confidence interval and rank probabilities of every weight
+ */
+export function simulateMerecWeights(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  noise: NoiseSpecification,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const iterations = options.iterations ?? 1000;
+  const seed = options.seed ?? 1;
+  const confidenceLevel = resolveUnitIntervalOption(
+    options.confidenceLevel,
+    0.95,
+    "Tingkat kepercayaan"
+  );
+
+  if (!Number.isInteger(iterations) || iterations < 2) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Jumlah iterasi harus berupa bilangan bulat >= 2: ${iterations}`,
+      { value: iterations }
+    );
+  }
+
+  if (typeof seed !== "number" || !isFinite(seed)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Seed harus berupa bilangan terbatas: ${seed}`,
+      { value: seed }
+    );
+  }
+
+  const base = calculateMerecDetailed(matrix, criteriaTypes, options);
+  const cellNoise = resolveCellNoise(noise, matrix, criteriaTypes.length);
+
+  // Diagnostik hanya dilaporkan untuk perhitungan tanpa noise
+  const simulationOptions: MerecOptions = { ...options, logger: undefined };
+  const random = createRandom(seed);
+
+  const n = criteriaTypes.length; // jumlah kriteria
+  const samples: number[][] = criteriaTypes.map(() => []);
+  const rankCounts: number[][] = criteriaTypes.map(() => new Array(n).fill(0));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const noisy = matrix.map((row, i) =>
+      row.map((x, j) =>
+        x === null || Number.isNaN(x) || cellNoise[i][j] === null
+          ? x
+          : applyNoise(x, cellNoise[i][j] as NoiseDistribution, random)
+      )
+    );
+
+    const weights = calculateMerecWeights(
+      noisy,
+      criteriaTypes,
+      simulationOptions
+    );
+    const ranks = rankCriteria(weights);
+
+    for (let j = 0; j < n; j++) {
+      samples[j].push(weights[j]);
+
+      // Kriteria seri membagi posisi peringkat kelompoknya secara merata
+      const ties = ranks.filter((rank) => rank === ranks[j]).length;
+      const first = ranks[j] - (ties - 1) / 2;
+      for (let r = first; r < first + ties; r++) {
+        rankCounts[j][r - 1] += 1 / ties;
+      }
+    }
+  }
+
+  const meanWeights = samples.map(
+    (values) => values.reduce((sum, w) => sum + w, 0) / iterations
+  );
+  const standardDeviations = samples.map((values, j) =>
+    Math.sqrt(
+      values.reduce((sum, w) => sum + (w - meanWeights[j]) ** 2, 0) /
+        (iterations - 1)
+    )
+  );
+
+  // Interval persentil: [(1 - level) / 2, (1 + level) / 2]
+  const confidenceIntervals: Interval[] = samples.map((values) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return [
+      calculatePercentile(sorted, (1 - confidenceLevel) / 2),
+      calculatePercentile(sorted, (1 + confidenceLevel) / 2),
+    ];
+  });
+
+  return {
+    iterations,
+    seed,
+    confidenceLevel,
+    baseWeights: base.weights,
+    meanWeights,
+    standardDeviations,
+    confidenceIntervals,
+    rankProbabilities: rankCounts.map((counts) =>
+      counts.map((count) => count / iterations)
+    ),
+    warnings: base.warnings,
+  };
+}
+
+/**
+ * Expand the noise specification to one distribution per cell and validate it
+ * @param noise - Noise for every cell, per column or per cell
+ * @param matrix - Decision matrix
+ * @param n - Number of criteria
+ * @returns Noise distribution of every cell (null = no noise)
+ */
+export function resolveCellNoise(
+  noise: NoiseSpecification,
+  matrix: MatrixValue[][],
+  n: number
+): (NoiseDistribution | null)[][] {
+  let cellNoise: (NoiseDistribution | null)[][];
+
+  if (!Array.isArray(noise)) {
+    cellNoise = matrix.map((row) => row.map(() => noise));
+  } else if (noise.length > 0 && noise.every((item) => Array.isArray(item))) {
+    const perCell = noise as (NoiseDistribution | null)[][];
+
+    if (
+      perCell.length !== matrix.length ||
+      perCell.some((row) => row.length !== n)
+    ) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Noise per sel harus berukuran ${matrix.length} x ${n}`,
+        { expected: matrix.length, actual: perCell.length }
+      );
+    }
+    cellNoise = perCell;
+  } else {
+    const perColumn = noise as (NoiseDistribution | null)[];
+
+    if (perColumn.length !== n) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Jumlah noise per kolom (${perColumn.length}) harus sama dengan jumlah kriteria (${n})`,
+        { expected: n, actual: perColumn.length }
+      );
+    }
+    cellNoise = matrix.map(() => perColumn);
+  }
+
+  cellNoise.forEach((row) => row.forEach(validateNoise));
+
+  return cellNoise;
+}
+
+/**
+ * Validate the parameters of a noise distribution
+ * @param noise - Noise distribution (null = no noise)
+ */
+function validateNoise(noise: NoiseDistribution | null): void {
+  if (noise === null) {
+    return;
+  }
+
+  const valid = (value: number) => typeof value === "number" && isFinite(value);
+  let message: string | null = null;
+
+  if (
+    noise.scale !== undefined &&
+    noise.scale !== "relative" &&
+    noise.scale !== "absolute"
+  ) {
+    message = `Skala noise tidak dikenal: ${noise.scale}`;
+  } else if (noise.type === "uniform") {
+    if (!valid(noise.halfWidth) || noise.halfWidth < 0) {
+      message = `Setengah lebar noise uniform harus >= 0: ${noise.halfWidth}`;
+    }
+  } else if (noise.type === "normal") {
+    if (!valid(noise.standardDeviation) || noise.standardDeviation < 0) {
+      message = `Standar deviasi noise normal harus >= 0: ${noise.standardDeviation}`;
+    }
+  } else if (noise.type === "triangular") {
+    const { lower, mode, upper } = noise;
+    if (![lower, mode, upper].every(valid) || lower > mode || mode > upper) {
+      message = `Noise segitiga harus memenuhi lower <= mode <= upper: (${lower}, ${mode}, ${upper})`;
+    }
+  } else {
+    message = `Distribusi noise tidak dikenal: ${(noise as { type: string }).type}`;
+  }
+
+  if (message !== null) {
+    throw new MerecInputError("INVALID_OPTION", message);
+  }
+}
+
+/**
+ * Apply one draw of noise to a value
+ * @param x - Original value
+ * @param noise - Noise distribution
+ * @param random - Uniform random number generator
+ * @returns Noisy value
+ */
+export function applyNoise(
+  x: number,
+  noise: NoiseDistribution,
+  random: RandomSource
+): number {
+  let epsilon: number;
+
+  if (noise.type === "uniform") {
+    epsilon = (2 * random() - 1) * noise.halfWidth;
+  } else if (noise.type === "normal") {
+    epsilon = sampleStandardNormal(random) * noise.standardDeviation;
+  } else {
+    epsilon = sampleTriangular(random, noise.lower, noise.mode, noise.upper);
+  }
+
+  return noise.scale === "absolute" ? x + epsilon : x * (1 + epsilon);
+}
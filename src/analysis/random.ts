@@ -0,0 +1,126 @@
+/**
+ * Seedable deterministic random number generation for simulation-based analyses
+ */
+
+/**
+ * Uniform random number generator on [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic Mulberry32 generator; the same seed yields the same sequence
+ * @param seed - Integer seed (non-integers are truncated to 32 bits)
+ * @returns Uniform random number generator on [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a standard normal number with the Box-Muller transform
+ * @param random - Uniform random number generator
+ * @returns Sample of N(0, 1)
+ */
+export function sampleStandardNormal(random: RandomSource): number {
+  // 1 - u berada pada (0, 1] sehingga ln tidak pernah -Infinity
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Draw from a triangular distribution by inverting its CDF
+ * @param random - Uniform random number generator
+ * @param lower - Lower bound a
+ * @param mode - Mode c (a <= c <= b)
+ * @param upper - Upper bound b
+ * @returns Sample in [a, b]
+ */
+export function sampleTriangular(
+  random: RandomSource,
+  lower: number,
+  mode: number,
+  upper: number
+): number {
+  const range = upper - lower;
+  if (range === 0) {
+    return lower;
+  }
+
+  const u = random();
+  return u < (mode - lower) / range
+    ? lower + Math.sqrt(u * range * (mode - lower))
+    : upper - Math.sqrt((1 - u) * range * (upper - mode));
+}
+
+/**
+ * Percentile of sorted values with linear interpolation between order statistics
+ * @param sorted - Values sorted ascending
+ * @param p - Probability in [0, 1]
+ * @returns Interpolated percentile
+ */
+export function calculatePercentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Draw the logarithm of a Gamma(shape, 1) sample (Marsaglia-Tsang), which stays
+ * finite for small shapes whose samples underflow to 0
+ * @param random - Uniform random number generator
+ * @param shape - Shape parameter k > 0
+ * @returns ln of a sample of Gamma(k, 1)
+ */
+export function sampleLogGamma(random: RandomSource, shape: number): number {
+  // k < 1: ln Gamma(k) = ln Gamma(k + 1) + ln(U) / k
+  if (shape < 1) {
+    return sampleLogGamma(random, shape + 1) + Math.log(1 - random()) / shape;
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    const z = sampleStandardNormal(random);
+    const v = (1 + c * z) ** 3;
+    if (v <= 0) {
+      continue;
+    }
+
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * z * z + d - d * v + d * Math.log(v)) {
+      return Math.log(d * v);
+    }
+  }
+}
+
+/**
+ * Draw a point of the simplex from a Dirichlet(α_1, ..., α_n) distribution
+ * @param random - Uniform random number generator
+ * @param alphas - Concentration α_j >= 0 of every component (α_j = 0 yields 0)
+ * @returns Non-negative vector that sums to 1
+ */
+export function sampleDirichlet(
+  random: RandomSource,
+  alphas: number[]
+): number[] {
+  const logDraws = alphas.map((alpha) =>
+    alpha > 0 ? sampleLogGamma(random, alpha) : -Infinity
+  );
+
+  // Normalisasi relatif terhadap sampel terbesar agar total tidak pernah 0
+  const max = logDraws.reduce((a, b) => Math.max(a, b), -Infinity);
+  const draws = logDraws.map((l) => Math.exp(l - max));
+  const total = draws.reduce((sum, g) => sum + g, 0);
+  return draws.map((g) => g / total);
+}
@@ -0,0 +1,195 @@
+/**
+ * Rank reversal test harness for rankings built on MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  MatrixValue,
+  RankingMethod,
+  RankReversalManipulation,
+  RankReversalOptions,
+  RankReversalPair,
+  RankReversalResult,
+  RankReversalScenario,
+} from "../types";
+import { MerecInputError } from "../errors";
+
+const MANIPULATIONS: RankReversalManipulation[] = [
+  "add-dominated",
+  "add-duplicate",
+  "remove-non-optimal",
+];
+
+/**
+ * Add dominated or duplicate alternatives and remove non-optimal ones one at a
+ * time, re-run the ranking method (which recomputes MEREC weights on the new
+ * alternative set) and report every pair of original alternatives whose order flips
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param rankingMethod - Ranking method, e.g. calculateTopsisRanking
+ * @param options - Optional ranking options plus manipulations and dominance margin
+ * @returns Every scenario and the rank reversals found
+ */
+export function testRankReversal(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  rankingMethod: RankingMethod,
+  options: RankReversalOptions = {}
+): RankReversalResult {
+  const {
+    manipulations = MANIPULATIONS,
+    dominanceMargin = 0.1,
+    ...rankingOptions
+  } = options;
+
+  if (
+    !Array.isArray(manipulations) ||
+    manipulations.some((m) => !MANIPULATIONS.includes(m))
+  ) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Manipulasi rank reversal tidak dikenal: ${manipulations}`
+    );
+  }
+
+  if (
+    typeof dominanceMargin !== "number" ||
+    !(dominanceMargin > 0 && isFinite(dominanceMargin))
+  ) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Margin dominasi harus bernilai > 0: ${dominanceMargin}`,
+      { value: dominanceMargin }
+    );
+  }
+
+  // Alternatif yang dihapus akan menggeser indeks baris hasil peringkat
+  if (rankingOptions.missingValuePolicy === "drop-alternative") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Kebijakan nilai hilang 'drop-alternative' tidak dapat digunakan pada uji rank reversal"
+    );
+  }
+
+  const rank = (rows: MatrixValue[][]) =>
+    rankingMethod(rows, criteriaTypes, rankingOptions).ranks;
+
+  const baseRanks = rank(matrix);
+  const m = matrix.length; // jumlah alternatif
+  const scenarios: RankReversalScenario[] = [];
+
+  for (const manipulation of manipulations) {
+    for (let i = 0; i < m; i++) {
+      let ranks: (number | null)[];
+
+      if (manipulation === "remove-non-optimal") {
+        if (baseRanks[i] === 1) {
+          continue;
+        }
+
+        const reduced = rank(matrix.filter((_, k) => k !== i));
+        ranks = baseRanks.map((_, k) =>
+          k === i ? null : reduced[k < i ? k : k - 1]
+        );
+      } else {
+        const added =
+          manipulation === "add-duplicate"
+            ? [...matrix[i]]
+            : matrix[i].map((x, j) =>
+                worsenValue(x, criteriaTypes[j], dominanceMargin)
+              );
+
+        // Alternatif tambahan berada di baris terakhir
+        ranks = rank([...matrix, added]).slice(0, m);
+      }
+
+      scenarios.push({
+        manipulation,
+        alternativeIndex: i,
+        ranks,
+        reversals: findReversals(baseRanks, ranks),
+      });
+    }
+  }
+
+  const reversedScenarios = scenarios.filter((s) => s.reversals.length > 0);
+
+  return {
+    baseRanks,
+    scenarios,
+    reversedScenarios,
+    reversalRate:
+      scenarios.length > 0 ? reversedScenarios.length / scenarios.length : 0,
+  };
+}
+
+/**
+ * Make a value strictly worse on its criterion by a relative margin. Ranking methods
+ * rank an order-preserving conversion of non-positive values, so the copy stays
+ * strictly dominated in the ranked matrix
+ * @param x - Original value (missing values stay missing)
+ * @param spec - Criterion type
+ * @param margin - Relative margin δ
+ * @returns Benefit x - δ|x|, cost x + δ|x|, target δ|x| beyond the acceptable range
+ */
+function worsenValue(
+  x: MatrixValue,
+  spec: CriteriaSpec,
+  margin: number
+): MatrixValue {
+  if (x === null || Number.isNaN(x)) {
+    return x;
+  }
+
+  // Nilai 0 digeser sebesar δ agar tetap lebih buruk
+  const step = margin * (x === 0 ? 1 : Math.abs(x));
+  const type = typeof spec === "string" ? spec : spec.type;
+
+  if (type === "benefit") {
+    return x - step;
+  }
+
+  if (type === "cost") {
+    return x + step;
+  }
+
+  const target = typeof spec === "string" ? x : spec.target;
+  const [lower, upper] = (typeof spec !== "string" && spec.acceptableRange) || [
+    target,
+    target,
+  ];
+
+  // Nilai di dalam rentang diterima digeser ke luar rentang agar jaraknya bertambah
+  return x < target ? Math.min(x, lower) - step : Math.max(x, upper) + step;
+}
+
+/**
+ * Find pairs of original alternatives whose order is strictly reversed
+ * @param baseRanks - Ranks before the manipulation
+ * @param ranks - Ranks after the manipulation (null = removed)
+ * @returns Reversed pairs
+ */
+function findReversals(
+  baseRanks: number[],
+  ranks: (number | null)[]
+): RankReversalPair[] {
+  const reversals: RankReversalPair[] = [];
+
+  for (let a = 0; a < baseRanks.length; a++) {
+    for (let b = 0; b < baseRanks.length; b++) {
+      const rankA = ranks[a];
+      const rankB = ranks[b];
+
+      if (
+        rankA !== null &&
+        rankB !== null &&
+        baseRanks[a] < baseRanks[b] &&
+        rankA > rankB
+      ) {
+        reversals.push({ better: a, worse: b });
+      }
+    }
+  }
+
+  return reversals;
+}
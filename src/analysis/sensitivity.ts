@@ -0,0 +1,186 @@
+/**
+ * One-at-a-time sensitivity analysis of MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  MatrixValue,
+  MerecOptions,
+  SensitivityInput,
+  SensitivityLevel,
+  SensitivityMode,
+  SensitivityOptions,
+  SensitivityResult,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { calculateMerecDetailed, calculateMerecWeights } from "../merec";
+import { rankCriteria } from "../weighting/input";
+
+const DEFAULT_PERTURBATIONS = [-20, -10, -5, 5, 10, 20];
+
+/**
+ * Perturb every column or every cell of the decision matrix by relative amounts
+ * and re-run MEREC. Cell mode runs MEREC m·n·L times (L = number of perturbations).
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional MEREC options plus mode and perturbations (in percent)
+ * @returns Weights, elasticities and rank-changing perturbations of every input
+ */
+export function analyzeMerecSensitivity(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const mode: SensitivityMode = options.mode ?? "column";
+  const perturbations = resolvePerturbations(options.perturbations);
+
+  if (mode !== "column" && mode !== "cell") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Mode analisis sensitivitas tidak dikenal: ${mode}`
+    );
+  }
+
+  const base = calculateMerecDetailed(matrix, criteriaTypes, options);
+  const baseWeights = base.weights;
+  const baseRanks = rankCriteria(baseWeights);
+
+  // Diagnostik hanya dilaporkan untuk perhitungan tanpa perturbasi
+  const perturbedOptions: MerecOptions = { ...options, logger: undefined };
+
+  const analyze = (
+    perturb: (factor: number) => MatrixValue[][],
+    position: { alternativeIndex?: number; criterionIndex: number }
+  ): SensitivityInput => {
+    const levels: SensitivityLevel[] = perturbations.map((perturbation) => {
+      const weights = calculateMerecWeights(
+        perturb(1 + perturbation / 100),
+        criteriaTypes,
+        perturbedOptions
+      );
+      const ranks = rankCriteria(weights);
+
+      return {
+        perturbation,
+        weights,
+        ranks,
+        rankChanged: ranks.some((rank, j) => rank !== baseRanks[j]),
+      };
+    });
+
+    // ε_j = (Δw_j / w_j) / p, dirata-ratakan atas semua tingkat perturbasi
+    const elasticities = baseWeights.map((w_j, j) =>
+      w_j === 0
+        ? NaN
+        : levels.reduce(
+            (sum, level) =>
+              sum + (level.weights[j] - w_j) / w_j / (level.perturbation / 100),
+            0
+          ) / levels.length
+    );
+
+    const decreases = levels.filter(
+      (level) => level.perturbation < 0 && level.rankChanged
+    );
+    const increases = levels.filter(
+      (level) => level.perturbation > 0 && level.rankChanged
+    );
+
+    return {
+      ...position,
+      levels,
+      elasticities,
+      rankChangeDecrease:
+        decreases.length > 0
+          ? decreases[decreases.length - 1].perturbation
+          : null,
+      rankChangeIncrease:
+        increases.length > 0 ? increases[0].perturbation : null,
+    };
+  };
+
+  const inputs: SensitivityInput[] = [];
+  const n = criteriaTypes.length; // jumlah kriteria
+
+  if (mode === "column") {
+    for (let j = 0; j < n; j++) {
+      // Rasio MER-02 tidak berubah bila seluruh kolom diskalakan, sehingga
+      // yang diperturbasi adalah sebaran kolom di atas nilai minimumnya
+      const min = matrix.reduce(
+        (acc, row) =>
+          row[j] === null || Number.isNaN(row[j])
+            ? acc
+            : Math.min(acc, row[j] as number),
+        Infinity
+      );
+
+      inputs.push(
+        analyze(
+          (factor) =>
+            matrix.map((row) =>
+              row.map((x, k) =>
+                k === j && x !== null ? min + (x - min) * factor : x
+              )
+            ),
+          { criterionIndex: j }
+        )
+      );
+    }
+  } else {
+    matrix.forEach((row, i) => {
+      row.forEach((x, j) => {
+        // Sel hilang tidak memiliki nilai untuk diperturbasi
+        if (x === null || Number.isNaN(x)) {
+          return;
+        }
+
+        inputs.push(
+          analyze(
+            (factor) =>
+              matrix.map((r, k) =>
+                k === i ? r.map((v, l) => (l === j ? x * factor : v)) : r
+              ),
+            { alternativeIndex: i, criterionIndex: j }
+          )
+        );
+      });
+    });
+  }
+
+  return {
+    mode,
+    perturbations,
+    baseWeights,
+    baseRanks,
+    inputs,
+    warnings: base.warnings,
+  };
+}
+
+/**
+ * Validate the relative perturbations and sort them ascending
+ * @param perturbations - Perturbations in percent (optional)
+ * @returns Sorted perturbations
+ */
+function resolvePerturbations(perturbations: number[] | undefined): number[] {
+  const resolved = perturbations ?? DEFAULT_PERTURBATIONS;
+
+  if (!Array.isArray(resolved) || resolved.length === 0) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Daftar perturbasi tidak boleh kosong"
+    );
+  }
+
+  resolved.forEach((p) => {
+    if (typeof p !== "number" || !isFinite(p) || p === 0 || p <= -100) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Perturbasi harus berupa persentase bukan nol yang lebih besar dari -100: ${p}`,
+        { value: p }
+      );
+    }
+  });
+
+  return [...resolved].sort((a, b) => a - b);
+}
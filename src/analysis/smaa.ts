@@ -0,0 +1,287 @@
+/**
+ * SMAA-2 (Stochastic Multicriteria Acceptability Analysis) over MEREC weight uncertainty
+ */
+
+import {
+  CriteriaSpec,
+  Interval,
+  MatrixValue,
+  NoiseDistribution,
+  RankingMethod,
+  RankingOptions,
+  SmaaOptions,
+  SmaaResult,
+  WeightSampling,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { applyNoise, resolveCellNoise } from "./monteCarlo";
+import { RandomSource, createRandom, sampleDirichlet } from "./random";
+
+/**
+ * Maximum number of rejected simplex points per accepted bounded sample
+ */
+const MAX_REJECTIONS = 10000;
+
+/**
+ * Rank the alternatives with sampled weights around the MEREC weights and derive
+ * rank acceptability indices, central weight vectors and confidence factors
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param rankingMethod - Ranking method, e.g. calculateTopsisRanking
+ * @param options - Optional ranking options plus sampling, iterations, seed and noise
+ * @returns Rank acceptability indices, central weights and confidence factors
+ */
+export function analyzeRankAcceptability(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  rankingMethod: RankingMethod,
+  options: SmaaOptions = {}
+): SmaaResult {
+  const {
+    sampling = "dirichlet",
+    concentration = 100,
+    weightBounds,
+    noise,
+    iterations = 1000,
+    seed = 1,
+    ...rankingOptions
+  } = options;
+
+  if (sampling !== "dirichlet" && sampling !== "bounded") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Metode sampling bobot tidak dikenal: ${sampling}`
+    );
+  }
+
+  if (
+    typeof concentration !== "number" ||
+    !(concentration > 0 && isFinite(concentration))
+  ) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Konsentrasi Dirichlet harus bernilai > 0: ${concentration}`,
+      { value: concentration }
+    );
+  }
+
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Jumlah iterasi harus berupa bilangan bulat >= 1: ${iterations}`,
+      { value: iterations }
+    );
+  }
+
+  if (typeof seed !== "number" || !isFinite(seed)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Seed harus berupa bilangan terbatas: ${seed}`,
+      { value: seed }
+    );
+  }
+
+  // Alternatif yang dihapus akan menggeser indeks baris hasil peringkat
+  if (rankingOptions.missingValuePolicy === "drop-alternative") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Kebijakan nilai hilang 'drop-alternative' tidak dapat digunakan pada SMAA"
+    );
+  }
+
+  // Peringkat dengan bobot pusat (bobot MEREC jika tidak diberikan)
+  const base = rankingMethod(matrix, criteriaTypes, rankingOptions);
+  const centerWeights = base.weights;
+
+  const m = base.ranks.length; // jumlah alternatif
+  const n = centerWeights.length; // jumlah kriteria
+
+  const bounds = resolveWeightBounds(weightBounds, n);
+  const cellNoise =
+    noise === undefined ? null : resolveCellNoise(noise, matrix, n);
+  const random = createRandom(seed);
+
+  // Diagnostik sudah dilaporkan oleh perhitungan dengan bobot pusat
+  const sampleOptions: RankingOptions = {
+    ...rankingOptions,
+    logger: undefined,
+  };
+
+  const rank = (weights: number[]) =>
+    rankingMethod(
+      cellNoise === null ? matrix : perturbMatrix(matrix, cellNoise, random),
+      criteriaTypes,
+      { ...sampleOptions, weights }
+    ).ranks;
+
+  const rankCounts: number[][] = base.ranks.map(() => new Array(m).fill(0));
+  const firstRankWeights: number[][] = base.ranks.map(() =>
+    new Array(n).fill(0)
+  );
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const weights = sampleWeights(
+      random,
+      sampling,
+      centerWeights,
+      concentration,
+      bounds
+    );
+    const ranks = rank(weights);
+
+    for (let i = 0; i < m; i++) {
+      // Alternatif seri membagi posisi peringkat ranks[i] .. ranks[i] + ties - 1 secara merata
+      const ties = ranks.filter((rank) => rank === ranks[i]).length;
+      for (let r = ranks[i]; r < ranks[i] + ties; r++) {
+        rankCounts[i][r - 1] += 1 / ties;
+      }
+
+      if (ranks[i] === 1) {
+        weights.forEach((w, j) => {
+          firstRankWeights[i][j] += w / ties;
+        });
+      }
+    }
+  }
+
+  // Bobot sentral w^c_i: rata-rata bobot yang menempatkan alternatif i di peringkat 1
+  const centralWeights = firstRankWeights.map((sums, i) =>
+    rankCounts[i][0] > 0 ? sums.map((sum) => sum / rankCounts[i][0]) : null
+  );
+
+  // Faktor kepercayaan p^c_i: peluang peringkat 1 dengan bobot sentralnya
+  // (tanpa noise pengukuran nilainya 0 atau 1, atau 1 / k untuk k alternatif seri)
+  const confidenceFactors = centralWeights.map((weights, i) => {
+    if (weights === null) {
+      return 0;
+    }
+
+    const runs = cellNoise === null ? 1 : iterations;
+    let first = 0;
+    for (let run = 0; run < runs; run++) {
+      const ranks = rank(weights);
+      if (ranks[i] === 1) {
+        first += 1 / ranks.filter((r) => r === 1).length;
+      }
+    }
+    return first / runs;
+  });
+
+  return {
+    iterations,
+    seed,
+    sampling,
+    centerWeights,
+    baseRanks: base.ranks,
+    rankAcceptability: rankCounts.map((counts) =>
+      counts.map((count) => count / iterations)
+    ),
+    centralWeights,
+    confidenceFactors,
+    warnings: base.warnings,
+  };
+}
+
+/**
+ * Validate the per-criterion weight bounds of the bounded sampling
+ * @param weightBounds - Bounds [lower, upper] of every weight (optional)
+ * @param n - Number of criteria
+ * @returns Bounds of every weight
+ */
+function resolveWeightBounds(
+  weightBounds: Interval[] | undefined,
+  n: number
+): Interval[] {
+  if (weightBounds === undefined) {
+    return new Array(n).fill([0, 1]);
+  }
+
+  if (weightBounds.length !== n) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Jumlah batas bobot (${weightBounds.length}) harus sama dengan jumlah kriteria (${n})`,
+      { expected: n, actual: weightBounds.length }
+    );
+  }
+
+  weightBounds.forEach(([lower, upper], j) => {
+    if (!(lower >= 0 && lower <= upper && upper <= 1)) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Batas bobot kriteria ${j} harus memenuhi 0 <= lower <= upper <= 1: [${lower}, ${upper}]`,
+        { column: j }
+      );
+    }
+  });
+
+  const totalLower = weightBounds.reduce((sum, [lower]) => sum + lower, 0);
+  const totalUpper = weightBounds.reduce((sum, [, upper]) => sum + upper, 0);
+
+  if (totalLower > 1 || totalUpper < 1) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Batas bobot tidak memuat bobot dengan total 1: Σ lower = ${totalLower}, Σ upper = ${totalUpper}`
+    );
+  }
+
+  return weightBounds;
+}
+
+/**
+ * Sample one weight vector
+ * @param random - Uniform random number generator
+ * @param sampling - Weight sampling
+ * @param centerWeights - Weights the Dirichlet sampling is centered on
+ * @param concentration - Dirichlet concentration α_0
+ * @param bounds - Bounds of every weight for the bounded sampling
+ * @returns Non-negative weights that sum to 1
+ */
+function sampleWeights(
+  random: RandomSource,
+  sampling: WeightSampling,
+  centerWeights: number[],
+  concentration: number,
+  bounds: Interval[]
+): number[] {
+  if (sampling === "dirichlet") {
+    return sampleDirichlet(
+      random,
+      centerWeights.map((w) => concentration * w)
+    );
+  }
+
+  // Titik seragam pada simpleks (Dirichlet(1, ..., 1)) yang ditolak bila di luar batas
+  const ones = centerWeights.map(() => 1);
+  for (let attempt = 0; attempt < MAX_REJECTIONS; attempt++) {
+    const weights = sampleDirichlet(random, ones);
+    if (weights.every((w, j) => w >= bounds[j][0] && w <= bounds[j][1])) {
+      return weights;
+    }
+  }
+
+  throw new MerecInputError(
+    "INVALID_OPTION",
+    `Batas bobot terlalu sempit: tidak ada sampel yang diterima setelah ${MAX_REJECTIONS} percobaan`
+  );
+}
+
+/**
+ * Apply measurement noise to every cell of the decision matrix
+ * @param matrix - Decision matrix
+ * @param cellNoise - Noise distribution of every cell
+ * @param random - Uniform random number generator
+ * @returns Noisy decision matrix
+ */
+function perturbMatrix(
+  matrix: MatrixValue[][],
+  cellNoise: (NoiseDistribution | null)[][],
+  random: RandomSource
+): MatrixValue[][] {
+  return matrix.map((row, i) =>
+    row.map((x, j) =>
+      x === null || Number.isNaN(x) || cellNoise[i][j] === null
+        ? x
+        : applyNoise(x, cellNoise[i][j] as NoiseDistribution, random)
+    )
+  );
+}
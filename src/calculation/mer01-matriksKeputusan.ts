@@ -6,31 +6,88 @@
  * dan elemen matriks tersebut harus lebih besar dari nol (x_ij > 0).
  *
  * Jika kita memiliki nilai negatif dalam matriks keputusan, maka nilai tersebut harus
- * diubah menjadi nilai positif dengan menggunakan teknik yang tepat.
+ * diubah menjadi nilai positif dengan menggunakan teknik yang tepat. Strategi yang
+ * tersedia per kriteria:
+ * - legacy: x_ij <= 0 diganti dengan |x_ij| + 1
+ * - shift: seluruh kolom digeser sebesar |min| + 1
+ * - minmax: seluruh kolom diskalakan linier ke rentang [1, 2]
+ * - reject: nilai non-positif ditolak (error)
+ *
+ * Nilai hilang (null atau NaN) ditangani lebih dahulu sesuai kebijakan: ditolak,
+ * alternatif dihapus, diimputasi (mean, median, nilai terburuk), atau dilewati
+ * pada rata-rata MER-03/MER-04.
  */
 
-import { Alternative, Criteria } from "../types";
+import { ignoreDiagnostics } from "../diagnostics";
+import {
+  MerecDegenerateError,
+  MerecInputError,
+  MerecValueError,
+} from "../errors";
+import {
+  Alternative,
+  ColumnTransformation,
+  Criteria,
+  DiagnosticReporter,
+  MatrixValue,
+  MissingCell,
+  MissingValuePolicy,
+  NonPositiveStrategy,
+} from "../types";
+import { calculateTargetDeviation } from "./mer02-normalisasi";
 
 /**
  * Membuat matriks keputusan dari alternatif yang diberikan
  * @param alternatives - Array alternatif
  * @param criteria - Array kriteria
+ * @param report - Penerima diagnostik (opsional)
+ * @param strategies - Strategi nilai non-positif per kriteria (default: "legacy")
  * @returns Matriks keputusan X (m x n)
  */
 export function calculateDecisionMatrix(
   alternatives: Alternative[],
-  criteria: Criteria[]
+  criteria: Criteria[],
+  report: DiagnosticReporter = ignoreDiagnostics,
+  strategies: NonPositiveStrategy[] = []
 ): number[][] {
+  return calculateDecisionMatrixDetailed(
+    alternatives,
+    criteria,
+    report,
+    strategies
+  ).matrix;
+}
+
+/**
+ * Membuat matriks keputusan beserta transformasi kolom yang diterapkan
+ * @param alternatives - Array alternatif
+ * @param criteria - Array kriteria
+ * @param report - Penerima diagnostik (opsional)
+ * @param strategies - Strategi nilai non-positif per kriteria (default: "legacy")
+ * @returns Matriks keputusan X (m x n) dan daftar transformasi kolom
+ */
+export function calculateDecisionMatrixDetailed(
+  alternatives: Alternative[],
+  criteria: Criteria[],
+  report: DiagnosticReporter = ignoreDiagnostics,
+  strategies: NonPositiveStrategy[] = []
+): { matrix: number[][]; transformations: ColumnTransformation[] } {
   const m = alternatives.length; // jumlah alternatif
   const n = criteria.length; // jumlah kriteria
 
   // Validasi input
   if (m === 0) {
-    throw new Error("Minimal satu alternatif harus disediakan");
+    throw new MerecInputError(
+      "EMPTY_ALTERNATIVES",
+      "Minimal satu alternatif harus disediakan"
+    );
   }
 
   if (n === 0) {
-    throw new Error("Minimal satu kriteria harus disediakan");
+    throw new MerecInputError(
+      "EMPTY_CRITERIA",
+      "Minimal satu kriteria harus disediakan"
+    );
   }
 
   // Bangun matriks keputusan
@@ -41,62 +98,429 @@ export function calculateDecisionMatrix(
 
     // Validasi jumlah nilai sesuai dengan jumlah kriteria
     if (alternative.values.length !== n) {
-      throw new Error(
-        `Alternative '${alternative.name}' must have exactly ${n} values`
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Alternative '${alternative.name}' must have exactly ${n} values`,
+        {
+          row: i,
+          id: alternative.id,
+          expected: n,
+          actual: alternative.values.length,
+        }
+      );
+    }
+
+    // Nilai hilang (null) direpresentasikan sebagai NaN
+    matrix.push(alternative.values.map((value) => value ?? NaN));
+  }
+
+  // Pastikan semua nilai positif (x_ij > 0) sesuai strategi setiap kriteria
+  const transformations: ColumnTransformation[] = [];
+
+  for (let j = 0; j < n; j++) {
+    const transformation = applyNonPositiveStrategy(
+      matrix,
+      alternatives,
+      criteria,
+      j,
+      strategies[j] ?? "legacy",
+      report
+    );
+
+    if (transformation) {
+      transformations.push(transformation);
+    }
+  }
+
+  return { matrix, transformations };
+}
+
+/**
+ * Menerapkan strategi nilai non-positif pada satu kolom (mengubah matrix secara langsung)
+ * @param matrix - Matriks keputusan yang sedang dibangun
+ * @param alternatives - Array alternatif (untuk pesan)
+ * @param criteria - Array kriteria
+ * @param j - Indeks kolom
+ * @param strategy - Strategi yang digunakan
+ * @param report - Penerima diagnostik
+ * @returns Transformasi yang diterapkan, atau null jika kolom sudah positif
+ */
+function applyNonPositiveStrategy(
+  matrix: number[][],
+  alternatives: Alternative[],
+  criteria: Criteria[],
+  j: number,
+  strategy: NonPositiveStrategy,
+  report: DiagnosticReporter
+): ColumnTransformation | null {
+  const m = matrix.length;
+  const affectedRows: number[] = [];
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (let i = 0; i < m; i++) {
+    const value = matrix[i][j];
+    if (value <= 0) {
+      affectedRows.push(i);
+    }
+    if (value < min) {
+      min = value;
+    }
+    if (value > max) {
+      max = value;
+    }
+  }
+
+  // Kriteria target hanya membutuhkan jarak ke target, sehingga nilai <= 0 tetap valid
+  if (affectedRows.length === 0 || criteria[j].type === "target") {
+    return null;
+  }
+
+  const base = {
+    criterionIndex: j,
+    criterionId: criteria[j].id,
+    strategy,
+  };
+
+  switch (strategy) {
+    case "reject": {
+      const i = affectedRows[0];
+      throw new MerecValueError(
+        "NON_POSITIVE_VALUE",
+        `Nilai negatif atau nol ditemukan pada alternatif '${alternatives[i].name}' ` +
+          `kriteria '${criteria[j].name}': ${matrix[i][j]}`,
+        { row: i, column: j, value: matrix[i][j] }
       );
     }
 
-    // Validasi semua nilai harus positif (x_ij > 0)
-    const row: number[] = [];
+    case "shift": {
+      // x' = x + |min| + 1, sehingga nilai minimum menjadi 1
+      const offset = Math.abs(min) + 1;
+      for (let i = 0; i < m; i++) {
+        matrix[i][j] += offset;
+      }
+
+      report({
+        code: "COLUMN_SHIFTED",
+        severity: "info",
+        step: "MER-01",
+        criterionIndex: j,
+        message:
+          `Kriteria '${criteria[j].name}' memiliki nilai negatif atau nol. ` +
+          `Semua nilai digeser sebesar ${offset}.`,
+      });
+
+      return {
+        ...base,
+        affectedRows: matrix.map((_, i) => i),
+        scale: 1,
+        offset,
+      };
+    }
+
+    case "minmax": {
+      // x' = 1 + (x - min) / (max - min), sehingga nilai berada pada [1, 2]
+      const range = max - min;
+      const scale = range > 0 ? 1 / range : 0;
+      const offset = 1 - min * scale;
+      for (let i = 0; i < m; i++) {
+        matrix[i][j] = scale * matrix[i][j] + offset;
+      }
+
+      report({
+        code: "COLUMN_RESCALED",
+        severity: "info",
+        step: "MER-01",
+        criterionIndex: j,
+        message:
+          `Kriteria '${criteria[j].name}' memiliki nilai negatif atau nol. ` +
+          `Semua nilai diskalakan ke rentang [1, 2].`,
+      });
+
+      return {
+        ...base,
+        affectedRows: matrix.map((_, i) => i),
+        scale,
+        offset,
+      };
+    }
+
+    default: {
+      // Teknik sederhana: |x| + 1 untuk setiap nilai negatif atau nol
+      for (const i of affectedRows) {
+        report({
+          code: "NON_POSITIVE_VALUE_CONVERTED",
+          severity: "warning",
+          step: "MER-01",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Nilai negatif atau nol ditemukan pada alternatif '${alternatives[i].name}' ` +
+            `kriteria '${criteria[j].name}'. Menggunakan nilai absolut + 1.`,
+        });
+        matrix[i][j] = Math.abs(matrix[i][j]) + 1;
+      }
+
+      return { ...base, affectedRows };
+    }
+  }
+}
+
+/**
+ * Menangani nilai hilang (null atau NaN) sebelum matriks keputusan dibangun
+ * @param alternatives - Array alternatif (boleh berisi nilai hilang)
+ * @param criteria - Array kriteria
+ * @param policy - Kebijakan nilai hilang
+ * @param report - Penerima diagnostik (opsional)
+ * @returns Alternatif yang sudah ditangani dan daftar sel yang hilang
+ */
+export function handleMissingValues(
+  alternatives: Alternative[],
+  criteria: Criteria[],
+  policy: MissingValuePolicy,
+  report: DiagnosticReporter = ignoreDiagnostics
+): { alternatives: Alternative[]; missingCells: MissingCell[] } {
+  const m = alternatives.length; // jumlah alternatif
+  const n = criteria.length; // jumlah kriteria
+  const missingCells: MissingCell[] = [];
+
+  for (let i = 0; i < m; i++) {
     for (let j = 0; j < n; j++) {
-      let value = alternative.values[j];
+      if (isMissingValue(alternatives[i].values[j])) {
+        missingCells.push({
+          alternativeIndex: i,
+          alternativeId: alternatives[i].id,
+          criterionIndex: j,
+          criterionId: criteria[j].id,
+          policy,
+        });
+      }
+    }
+  }
+
+  if (missingCells.length === 0) {
+    return { alternatives, missingCells };
+  }
+
+  if (policy === "reject") {
+    const { alternativeIndex: i, criterionIndex: j } = missingCells[0];
+    throw new MerecValueError(
+      "MISSING_VALUE",
+      `Nilai hilang pada alternatif '${alternatives[i].name}' kriteria '${criteria[j].name}'`,
+      { row: i, column: j }
+    );
+  }
+
+  if (policy === "drop-alternative") {
+    const droppedRows = new Set(missingCells.map((c) => c.alternativeIndex));
+
+    droppedRows.forEach((i) => {
+      report({
+        code: "ALTERNATIVE_DROPPED",
+        severity: "warning",
+        step: "MER-01",
+        alternativeIndex: i,
+        message: `Alternatif '${alternatives[i].name}' dihapus karena memiliki nilai hilang.`,
+      });
+    });
+
+    const retained = alternatives.filter((_, i) => !droppedRows.has(i));
+
+    if (retained.length === 0) {
+      throw new MerecDegenerateError(
+        "ALL_VALUES_MISSING",
+        "Semua alternatif memiliki nilai hilang"
+      );
+    }
+
+    return { alternatives: retained, missingCells };
+  }
+
+  // Setiap kolom harus memiliki minimal satu nilai yang teramati
+  const observedColumns: number[][] = criteria.map((_, j) =>
+    alternatives
+      .map((a) => a.values[j])
+      .filter((value): value is number => !isMissingValue(value))
+  );
+
+  observedColumns.forEach((observed, j) => {
+    if (observed.length === 0) {
+      throw new MerecDegenerateError(
+        "ALL_VALUES_MISSING",
+        `Semua nilai pada kriteria '${criteria[j].name}' hilang`,
+        { column: j }
+      );
+    }
+  });
 
-      // Jika nilai negatif atau nol, konversi ke positif
-      if (value <= 0) {
-        console.warn(
-          `Nilai negatif atau nol ditemukan pada alternatif '${alternative.name}' ` +
-            `kriteria '${criteria[j].name}'. Menggunakan nilai absolut + 1.`
+  if (policy === "skip") {
+    // Setiap alternatif juga harus memiliki minimal satu nilai yang teramati
+    for (let i = 0; i < m; i++) {
+      if (alternatives[i].values.every(isMissingValue)) {
+        throw new MerecDegenerateError(
+          "ALL_VALUES_MISSING",
+          `Semua nilai pada alternatif '${alternatives[i].name}' hilang`,
+          { row: i }
         );
-        value = Math.abs(value) + 1; // Teknik sederhana: |x| + 1
       }
+    }
 
-      row.push(value);
+    for (const cell of missingCells) {
+      report({
+        code: "MISSING_VALUE_SKIPPED",
+        severity: "info",
+        step: "MER-01",
+        alternativeIndex: cell.alternativeIndex,
+        criterionIndex: cell.criterionIndex,
+        message:
+          `Nilai hilang pada alternatif '${alternatives[cell.alternativeIndex].name}' ` +
+          `kriteria '${criteria[cell.criterionIndex].name}' dilewati pada MER-03/MER-04.`,
+      });
     }
 
-    matrix.push(row);
+    return {
+      alternatives: alternatives.map((a) => ({
+        ...a,
+        values: a.values.map((value) => (isMissingValue(value) ? NaN : value)),
+      })),
+      missingCells,
+    };
+  }
+
+  // Imputasi: mean, median, atau nilai terburuk
+  const imputedValues = observedColumns.map((observed, j) =>
+    imputeColumn(observed, criteria[j], policy)
+  );
+
+  for (const cell of missingCells) {
+    const value = imputedValues[cell.criterionIndex];
+    cell.imputedValue = value;
+
+    report({
+      code: "MISSING_VALUE_IMPUTED",
+      severity: "warning",
+      step: "MER-01",
+      alternativeIndex: cell.alternativeIndex,
+      criterionIndex: cell.criterionIndex,
+      message:
+        `Nilai hilang pada alternatif '${alternatives[cell.alternativeIndex].name}' ` +
+        `kriteria '${criteria[cell.criterionIndex].name}' diisi dengan ${policy} (${value}).`,
+    });
+  }
+
+  return {
+    alternatives: alternatives.map((a) => ({
+      ...a,
+      values: a.values.map((value, j) =>
+        isMissingValue(value) ? imputedValues[j] : value
+      ),
+    })),
+    missingCells,
+  };
+}
+
+/**
+ * Mengecek apakah sebuah nilai dianggap hilang (null, undefined, atau NaN)
+ * @param value - Nilai sel
+ * @returns true jika nilai hilang
+ */
+export function isMissingValue(value: MatrixValue | undefined): boolean {
+  return value === null || value === undefined || Number.isNaN(value);
+}
+
+/**
+ * Menghitung nilai imputasi satu kolom dari nilai yang teramati
+ * @param observed - Nilai yang teramati pada kolom
+ * @param criterion - Kriteria kolom
+ * @param policy - Kebijakan imputasi
+ * @returns Nilai imputasi
+ */
+function imputeColumn(
+  observed: number[],
+  criterion: Criteria,
+  policy: MissingValuePolicy
+): number {
+  if (policy === "mean") {
+    return observed.reduce((sum, v) => sum + v, 0) / observed.length;
+  }
+
+  if (policy === "median") {
+    const sorted = [...observed].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[mid - 1] + sorted[mid]) / 2
+      : sorted[mid];
   }
 
-  return matrix;
+  // Nilai terburuk: jarak terjauh dari target untuk kriteria target
+  if (criterion.type === "target") {
+    return observed.reduce((worst, v) =>
+      calculateTargetDeviation(v, criterion) >
+      calculateTargetDeviation(worst, criterion)
+        ? v
+        : worst
+    );
+  }
+
+  // Nilai terburuk: minimum untuk benefit, maksimum untuk cost
+  return observed.reduce(
+    (worst, v) =>
+      criterion.type === "cost" ? Math.max(worst, v) : Math.min(worst, v),
+    observed[0]
+  );
 }
 
 /**
  * Validasi matriks keputusan
  * @param matrix - Matriks keputusan
  * @param criteria - Array kriteria
+ * @param allowMissing - Izinkan sel hilang (NaN) untuk kebijakan "skip"
  */
 export function validateDecisionMatrix(
   matrix: number[][],
-  criteria: Criteria[]
+  criteria: Criteria[],
+  allowMissing: boolean = false
 ): void {
   const m = matrix.length;
   const n = matrix[0]?.length || 0;
 
   if (m === 0 || n === 0) {
-    throw new Error("Matriks keputusan tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_MATRIX",
+      "Matriks keputusan tidak boleh kosong"
+    );
   }
 
   if (n !== criteria.length) {
-    throw new Error(
-      `Jumlah kolom matriks (${n}) tidak sesuai dengan jumlah kriteria (${criteria.length})`
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah kolom matriks (${n}) tidak sesuai dengan jumlah kriteria (${criteria.length})`,
+      { expected: criteria.length, actual: n }
     );
   }
 
-  // Pastikan semua nilai positif
+  // Pastikan semua nilai terbatas dan positif
   for (let i = 0; i < m; i++) {
     for (let j = 0; j < n; j++) {
-      if (matrix[i][j] <= 0) {
-        throw new Error(
-          `Nilai matriks pada posisi [${i}][${j}] harus lebih besar dari 0`
+      const value = matrix[i][j];
+
+      if (allowMissing && Number.isNaN(value)) {
+        continue;
+      }
+
+      if (typeof value !== "number" || !isFinite(value)) {
+        throw new MerecValueError(
+          "NON_FINITE_VALUE",
+          `Nilai matriks pada posisi [${i}][${j}] tidak valid: ${value}`,
+          { row: i, column: j, value }
+        );
+      }
+
+      if (value <= 0 && criteria[j].type !== "target") {
+        throw new MerecValueError(
+          "NON_POSITIVE_VALUE",
+          `Nilai matriks pada posisi [${i}][${j}] harus lebih besar dari 0`,
+          { row: i, column: j, value }
         );
       }
     }
@@ -11,28 +11,55 @@
  *   min_k(x_kj) / x_ij   if j ∈ B (benefit)
  *   x_ij / max_k(x_kj)   if j ∈ H (cost)
  * }
+ *
+ * Untuk kriteria target (nominal-is-best) T, yang dinormalisasi adalah jarak ke target
+ * d_ij = |x_ij - T_j| (0 jika x_ij berada di dalam rentang yang dapat diterima), relatif
+ * terhadap rentang R_j = max(max_k x_kj, T_j) - min(min_k x_kj, T_j):
+ *
+ *   nx_ij = (1 + d_ij / R_j) / (1 + max_k(d_kj) / R_j)   if j ∈ T (target)
+ *
+ * Sehingga nilai tetap positif dan semakin kecil semakin baik, sesuai syarat MEREC.
+ *
+ * Skema normalisasi lain dapat dipilih untuk studi perbandingan metode. Setiap skema menghitung
+ * skor standar r_ij (semakin besar semakin baik) dari nilai x_ij, lalu dipetakan ke konvensi
+ * MEREC dengan nx_ij = 1 - (r_ij - min_k r_kj) sehingga berada pada (0, 1] dan semakin kecil
+ * semakin baik (kriteria target dinormalisasi sebagai cost pada v_ij = 1 + d_ij / R_j):
+ * - merec: nx_ij = u_ij seperti di atas (default)
+ * - vector: r_ij = x_ij / sqrt(Σ_k x_kj²) (benefit), 1 - x_ij / sqrt(Σ_k x_kj²) (cost)
+ * - sum-linear: r_ij = x_ij / Σ_k x_kj (benefit), (1 / x_ij) / Σ_k (1 / x_kj) (cost)
+ * - max-linear: r_ij = x_ij / max_k x_kj (benefit), 1 - x_ij / max_k x_kj (cost)
+ * - logarithmic: r_ij = ln x_ij / ln Π_k x_kj (benefit), (1 - ln x_ij / ln Π_k x_kj) / (m - 1) (cost),
+ *   pada kolom yang digeser hingga minimumnya 2 jika ada nilai <= 1
  */
 
-import { Criteria } from "../types";
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecDegenerateError, MerecInputError } from "../errors";
+import { Criteria, DiagnosticReporter, NormalizationScheme } from "../types";
 
 /**
  * Melakukan normalisasi matriks keputusan sesuai rumus MER-02
  * @param matrix - Matriks keputusan X (m x n)
  * @param criteria - Array kriteria dengan tipe benefit/cost
  * @param epsilon - Nilai kecil untuk menghindari pembagian dengan nol
+ * @param report - Penerima diagnostik (opsional)
+ * @param scheme - Skema normalisasi (default: "merec")
  * @returns Matriks yang dinormalisasi N (m x n)
  */
 export function calculateNormalizedMatrix(
   matrix: number[][],
   criteria: Criteria[],
-  epsilon: number = 1e-10
+  epsilon: number = 1e-10,
+  report: DiagnosticReporter = ignoreDiagnostics,
+  scheme: NormalizationScheme = "merec"
 ): number[][] {
   const m = matrix.length; // jumlah alternatif
   const n = matrix[0].length; // jumlah kriteria
 
   if (n !== criteria.length) {
-    throw new Error(
-      `Jumlah kolom matriks (${n}) tidak sesuai dengan jumlah kriteria (${criteria.length})`
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah kolom matriks (${n}) tidak sesuai dengan jumlah kriteria (${criteria.length})`,
+      { expected: criteria.length, actual: n }
     );
   }
 
@@ -46,19 +73,46 @@ export function calculateNormalizedMatrix(
       const criteriaType = criteria[j].type;
       const currentValue = matrix[i][j];
 
-      // Ambil semua nilai pada kolom j
-      const columnValues = matrix.map((row) => row[j]);
+      // Sel hilang (NaN) tetap hilang pada matriks normalisasi
+      if (Number.isNaN(currentValue)) {
+        normalizedRow.push(NaN);
+        continue;
+      }
+
+      // Ambil semua nilai yang teramati pada kolom j
+      const columnValues = matrix
+        .map((row) => row[j])
+        .filter((value) => !Number.isNaN(value));
 
       let normalizedValue: number;
 
-      if (criteriaType === "benefit") {
+      if (criteriaType === "target") {
+        // Untuk kriteria target: nx_ij = (1 + d_ij / R_j) / (1 + max_k(d_kj) / R_j)
+        const target = criteria[j].target as number;
+        const range =
+          Math.max(...columnValues, target) - Math.min(...columnValues, target);
+        const maxDeviation = Math.max(
+          ...columnValues.map((value) =>
+            calculateTargetDeviation(value, criteria[j])
+          )
+        );
+        const deviation = calculateTargetDeviation(currentValue, criteria[j]);
+
+        normalizedValue =
+          range > 0 ? (1 + deviation / range) / (1 + maxDeviation / range) : 1;
+      } else if (criteriaType === "benefit") {
         // Untuk kriteria benefit: nx_ij = min_k(x_kj) / x_ij
         const minValue = Math.min(...columnValues);
 
         if (minValue <= 0) {
-          console.warn(
-            `Kriteria benefit '${criteria[j].name}' memiliki nilai minimum <= 0, menggunakan epsilon`
-          );
+          report({
+            code: "NON_POSITIVE_BENEFIT_MIN",
+            severity: "warning",
+            step: "MER-02",
+            alternativeIndex: i,
+            criterionIndex: j,
+            message: `Kriteria benefit '${criteria[j].name}' memiliki nilai minimum <= 0, menggunakan epsilon`,
+          });
           normalizedValue = epsilon;
         } else {
           normalizedValue = minValue / Math.max(currentValue, epsilon);
@@ -68,9 +122,14 @@ export function calculateNormalizedMatrix(
         const maxValue = Math.max(...columnValues);
 
         if (maxValue === 0) {
-          console.warn(
-            `Kriteria cost '${criteria[j].name}' memiliki nilai maksimum 0, menggunakan epsilon`
-          );
+          report({
+            code: "ZERO_COST_MAX",
+            severity: "warning",
+            step: "MER-02",
+            alternativeIndex: i,
+            criterionIndex: j,
+            message: `Kriteria cost '${criteria[j].name}' memiliki nilai maksimum 0, menggunakan epsilon`,
+          });
           normalizedValue = epsilon;
         } else {
           normalizedValue = Math.max(currentValue, epsilon) / maxValue;
@@ -83,14 +142,176 @@ export function calculateNormalizedMatrix(
     normalizedMatrix.push(normalizedRow);
   }
 
+  if (scheme === "merec") {
+    return normalizedMatrix;
+  }
+
+  return applyNormalizationScheme(
+    matrix,
+    normalizedMatrix,
+    criteria,
+    scheme,
+    epsilon
+  );
+}
+
+/**
+ * Menerapkan skema normalisasi lain pada nilai matriks keputusan X setiap kolom
+ * @param matrix - Matriks keputusan X (m x n)
+ * @param merecMatrix - Matriks normalisasi MEREC u (m x n), NaN untuk sel hilang
+ * @param criteria - Array kriteria
+ * @param scheme - Skema normalisasi
+ * @param epsilon - Nilai kecil untuk menjaga nilai tetap positif
+ * @returns Matriks yang dinormalisasi N (m x n)
+ */
+function applyNormalizationScheme(
+  matrix: number[][],
+  merecMatrix: number[][],
+  criteria: Criteria[],
+  scheme: NormalizationScheme,
+  epsilon: number
+): number[][] {
+  const m = merecMatrix.length;
+  const n = criteria.length;
+  const normalizedMatrix = merecMatrix.map((row) => [...row]);
+
+  for (let j = 0; j < n; j++) {
+    // Hanya sel yang teramati (bukan NaN) yang ikut dihitung
+    const rows: number[] = [];
+    for (let i = 0; i < m; i++) {
+      if (!Number.isNaN(merecMatrix[i][j])) {
+        rows.push(i);
+      }
+    }
+
+    const column = normalizeColumnByScheme(
+      rows.map((i) => matrix[i][j]),
+      criteria[j],
+      scheme,
+      epsilon
+    );
+    rows.forEach((i, k) => {
+      normalizedMatrix[i][j] = column[k];
+    });
+  }
+
   return normalizedMatrix;
 }
 
+/**
+ * Normalisasi satu kolom dengan skema standar pada nilai x_ij, lalu dipetakan ke
+ * konvensi MEREC: nx_ij = 1 - (r_ij - min_k r_kj), dengan r_ij skor normalisasi
+ * standar (semakin besar semakin baik)
+ * @param values - Nilai teramati x_ij pada kolom
+ * @param criterion - Kriteria kolom
+ * @param scheme - Skema normalisasi selain "merec"
+ * @param epsilon - Nilai kecil untuk menjaga nilai tetap positif
+ * @returns Nilai nx_ij pada (0, 1], semakin kecil semakin baik
+ */
+export function normalizeColumnByScheme(
+  values: number[],
+  criterion: Criteria,
+  scheme: NormalizationScheme,
+  epsilon: number
+): number[] {
+  const count = values.length;
+  if (count === 0) {
+    return [];
+  }
+
+  // Kriteria target dinormalisasi sebagai cost pada v_ij = 1 + d_ij / R_j
+  let v = values;
+  let isBenefit = criterion.type === "benefit";
+
+  if (criterion.type === "target") {
+    const target = criterion.target as number;
+    // Tanpa spread operator agar aman untuk kolom yang sangat panjang
+    const range =
+      values.reduce((max, x) => Math.max(max, x), target) -
+      values.reduce((min, x) => Math.min(min, x), target);
+    v = values.map((value) =>
+      range > 0 ? 1 + calculateTargetDeviation(value, criterion) / range : 1
+    );
+    isBenefit = false;
+  }
+
+  let scores: number[];
+
+  if (scheme === "vector") {
+    // r_ij = x_ij / sqrt(Σ_k x_kj²) untuk benefit, 1 - x_ij / sqrt(Σ_k x_kj²) untuk cost
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    scores = v.map((x) =>
+      norm > 0 ? (isBenefit ? x / norm : 1 - x / norm) : 1
+    );
+  } else if (scheme === "sum-linear") {
+    // r_ij = x_ij / Σ_k x_kj untuk benefit, (1 / x_ij) / Σ_k (1 / x_kj) untuk cost
+    const terms = isBenefit ? v : v.map((x) => 1 / Math.max(x, epsilon));
+    const total = terms.reduce((sum, x) => sum + x, 0);
+    scores = terms.map((x) => (total > 0 ? x / total : 1));
+  } else if (scheme === "max-linear") {
+    // r_ij = x_ij / max_k x_kj untuk benefit, 1 - x_ij / max_k x_kj untuk cost
+    const maxValue = v.reduce((max, x) => Math.max(max, x), -Infinity);
+    scores = v.map((x) =>
+      maxValue > 0 ? (isBenefit ? x / maxValue : 1 - x / maxValue) : 1
+    );
+  } else {
+    // r_ij = ln x_ij / ln Π_k x_kj untuk benefit,
+    // (1 - ln x_ij / ln Π_k x_kj) / (m - 1) untuk cost.
+    // Kolom dengan nilai <= 1 digeser hingga minimumnya 2 agar semua ln x_ij > 0;
+    // tanpa pergeseran tanda ln Π_k x_kj dapat membalik urutan alternatif
+    const minValue = v.reduce((min, x) => Math.min(min, x), Infinity);
+    const shift = minValue > 1 ? 0 : 2 - minValue;
+    const logs = v.map((x) => Math.log(x + shift));
+    const total = logs.reduce((sum, l) => sum + l, 0);
+    scores = logs.map((l) => {
+      if (total === 0) {
+        return 1;
+      }
+      if (isBenefit) {
+        return l / total;
+      }
+      return count > 1 ? (1 - l / total) / (count - 1) : 1;
+    });
+  }
+
+  // nx_ij = 1 - (r_ij - min_k r_kj): alternatif terburuk bernilai 1
+  const minScore = scores.reduce((min, r) => Math.min(min, r), Infinity);
+  return scores.map((r) => Math.max(1 - (r - minScore), epsilon));
+}
+
+/**
+ * Menghitung jarak nilai ke target kriteria (0 jika berada di dalam rentang yang dapat diterima)
+ * @param value - Nilai x_ij
+ * @param criterion - Kriteria bertipe target
+ * @returns Jarak d_ij >= 0
+ */
+export function calculateTargetDeviation(
+  value: number,
+  criterion: Criteria
+): number {
+  const target = criterion.target as number;
+  const [lower, upper] = criterion.acceptableRange ?? [target, target];
+
+  if (value < lower) {
+    return lower - value;
+  }
+
+  if (value > upper) {
+    return value - upper;
+  }
+
+  return 0;
+}
+
 /**
  * Validasi hasil normalisasi
  * @param normalizedMatrix - Matriks yang sudah dinormalisasi
+ * @param allowMissing - Izinkan sel hilang (NaN) untuk kebijakan "skip"
  */
-export function validateNormalizedMatrix(normalizedMatrix: number[][]): void {
+export function validateNormalizedMatrix(
+  normalizedMatrix: number[][],
+  allowMissing: boolean = false
+): void {
   const m = normalizedMatrix.length;
   const n = normalizedMatrix[0]?.length || 0;
 
@@ -98,9 +319,15 @@ export function validateNormalizedMatrix(normalizedMatrix: number[][]): void {
     for (let j = 0; j < n; j++) {
       const value = normalizedMatrix[i][j];
 
+      if (allowMissing && Number.isNaN(value)) {
+        continue;
+      }
+
       if (!isFinite(value) || value <= 0) {
-        throw new Error(
-          `Nilai normalisasi tidak valid pada posisi [${i}][${j}]: ${value}`
+        throw new MerecDegenerateError(
+          "INVALID_NORMALIZED_VALUE",
+          `Nilai normalisasi tidak valid pada posisi [${i}][${j}]: ${value}`,
+          { row: i, column: j, value }
         );
       }
     }
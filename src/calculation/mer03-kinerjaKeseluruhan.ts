@@ -9,23 +9,34 @@
  *
  * Persamaan yang digunakan:
  * S_i = ln(1 + (1/m * Σ_j |ln(nx_ij)|))
+ *
+ * Sel hilang (NaN) tidak ikut dalam penjumlahan maupun pembagi rata-rata.
  */
 
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecDegenerateError, MerecInputError } from "../errors";
+import { DiagnosticReporter } from "../types";
+
 /**
  * Menghitung kinerja keseluruhan setiap alternatif menggunakan rumus MER-03
  * @param normalizedMatrix - Matriks yang sudah dinormalisasi N (m x n)
  * @param epsilon - Nilai kecil untuk menghindari ln(0)
+ * @param report - Penerima diagnostik (opsional)
  * @returns Array kinerja keseluruhan S_i untuk setiap alternatif
  */
 export function calculateOverallPerformance(
   normalizedMatrix: number[][],
-  epsilon: number = 1e-10
+  epsilon: number = 1e-10,
+  report: DiagnosticReporter = ignoreDiagnostics
 ): number[] {
   const m = normalizedMatrix.length; // jumlah alternatif
   const n = normalizedMatrix[0]?.length || 0; // jumlah kriteria
 
   if (m === 0 || n === 0) {
-    throw new Error("Matriks normalisasi tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Matriks normalisasi tidak boleh kosong"
+    );
   }
 
   const performances: number[] = [];
@@ -33,10 +44,17 @@ export function calculateOverallPerformance(
   for (let i = 0; i < m; i++) {
     // Hitung 1/m * Σ_j |ln(nx_ij)|
     let sumAbsLn = 0;
+    let count = 0;
 
     for (let j = 0; j < n; j++) {
       const nx_ij = normalizedMatrix[i][j];
 
+      // Sel hilang (NaN) dilewati dari rata-rata
+      if (Number.isNaN(nx_ij)) {
+        continue;
+      }
+      count++;
+
       // Pastikan nilai tidak nol atau negatif sebelum ln
       const safeValue = Math.max(nx_ij, epsilon);
       const lnValue = Math.log(safeValue);
@@ -44,10 +62,16 @@ export function calculateOverallPerformance(
 
       // Validasi hasil perhitungan
       if (!isFinite(absLnValue)) {
-        console.warn(
-          `Nilai ln tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
-            `nx_ij = ${nx_ij}, menggunakan epsilon.`
-        );
+        report({
+          code: "NON_FINITE_LOG",
+          severity: "warning",
+          step: "MER-03",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Nilai ln tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
+            `nx_ij = ${nx_ij}, menggunakan epsilon.`,
+        });
         sumAbsLn += Math.abs(Math.log(epsilon));
       } else {
         sumAbsLn += absLnValue;
@@ -55,17 +79,22 @@ export function calculateOverallPerformance(
     }
 
     // Hitung rata-rata: (1/m * Σ_j |ln(nx_ij)|)
-    const avgAbsLn = sumAbsLn / n; // Note: menggunakan n (jumlah kriteria), bukan m
+    const avgAbsLn = sumAbsLn / count; // Note: menggunakan n (jumlah kriteria teramati), bukan m
 
     // Hitung S_i = ln(1 + avgAbsLn)
     const S_i = Math.log(1 + avgAbsLn);
 
     // Validasi hasil akhir
     if (!isFinite(S_i)) {
-      console.warn(
-        `Kinerja tidak terbatas pada alternatif ${i}. ` +
-          `avgAbsLn = ${avgAbsLn}, menggunakan nilai default.`
-      );
+      report({
+        code: "NON_FINITE_PERFORMANCE",
+        severity: "warning",
+        step: "MER-03",
+        alternativeIndex: i,
+        message:
+          `Kinerja tidak terbatas pada alternatif ${i}. ` +
+          `avgAbsLn = ${avgAbsLn}, menggunakan nilai default.`,
+      });
       performances.push(0);
     } else {
       performances.push(S_i);
@@ -78,26 +107,40 @@ export function calculateOverallPerformance(
 /**
  * Validasi hasil kinerja keseluruhan
  * @param performances - Array kinerja keseluruhan
+ * @param report - Penerima diagnostik (opsional)
  */
-export function validateOverallPerformance(performances: number[]): void {
+export function validateOverallPerformance(
+  performances: number[],
+  report: DiagnosticReporter = ignoreDiagnostics
+): void {
   if (performances.length === 0) {
-    throw new Error("Array kinerja keseluruhan tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Array kinerja keseluruhan tidak boleh kosong"
+    );
   }
 
   for (let i = 0; i < performances.length; i++) {
     const S_i = performances[i];
 
     if (!isFinite(S_i)) {
-      throw new Error(
-        `Kinerja keseluruhan tidak valid pada alternatif ${i}: ${S_i}`
+      throw new MerecDegenerateError(
+        "INVALID_PERFORMANCE",
+        `Kinerja keseluruhan tidak valid pada alternatif ${i}: ${S_i}`,
+        { row: i, value: S_i }
       );
     }
 
     if (S_i < 0) {
-      console.warn(
-        `Kinerja keseluruhan negatif pada alternatif ${i}: ${S_i}. ` +
-          `Ini mungkin menunjukkan masalah dalam normalisasi.`
-      );
+      report({
+        code: "NEGATIVE_PERFORMANCE",
+        severity: "warning",
+        step: "MER-03",
+        alternativeIndex: i,
+        message:
+          `Kinerja keseluruhan negatif pada alternatif ${i}: ${S_i}. ` +
+          `Ini mungkin menunjukkan masalah dalam normalisasi.`,
+      });
     }
   }
 }
@@ -12,23 +12,34 @@
  *
  * Persamaan yang digunakan:
  * S'_ij = ln(1 + (1/m * Σ_k,k≠j |ln(nx_ik)|))
+ *
+ * Sel hilang (NaN) tidak ikut dalam penjumlahan maupun pembagi rata-rata.
  */
 
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecDegenerateError, MerecInputError } from "../errors";
+import { DiagnosticReporter } from "../types";
+
 /**
  * Menghitung kinerja alternatif dengan menghilangkan efek setiap kriteria
  * @param normalizedMatrix - Matriks yang sudah dinormalisasi N (m x n)
  * @param epsilon - Nilai kecil untuk menghindari ln(0)
+ * @param report - Penerima diagnostik (opsional)
  * @returns Matriks S'_ij (m x n) dimana S'_ij adalah kinerja alternatif i tanpa kriteria j
  */
 export function calculateRemovalPerformance(
   normalizedMatrix: number[][],
-  epsilon: number = 1e-10
+  epsilon: number = 1e-10,
+  report: DiagnosticReporter = ignoreDiagnostics
 ): number[][] {
   const m = normalizedMatrix.length; // jumlah alternatif
   const n = normalizedMatrix[0]?.length || 0; // jumlah kriteria
 
   if (m === 0 || n === 0) {
-    throw new Error("Matriks normalisasi tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Matriks normalisasi tidak boleh kosong"
+    );
   }
 
   const removalPerformances: number[][] = [];
@@ -47,6 +58,11 @@ export function calculateRemovalPerformance(
           // Skip kriteria j yang dihilangkan
           const nx_ik = normalizedMatrix[i][k];
 
+          // Sel hilang (NaN) dilewati dari rata-rata
+          if (Number.isNaN(nx_ik)) {
+            continue;
+          }
+
           // Pastikan nilai tidak nol atau negatif sebelum ln
           const safeValue = Math.max(nx_ik, epsilon);
           const lnValue = Math.log(safeValue);
@@ -54,10 +70,16 @@ export function calculateRemovalPerformance(
 
           // Validasi hasil perhitungan
           if (!isFinite(absLnValue)) {
-            console.warn(
-              `Nilai ln tidak terbatas pada removal alternatif ${i}, ` +
-                `kriteria ${k} (menghilangkan ${j}). nx_ik = ${nx_ik}, menggunakan epsilon.`
-            );
+            report({
+              code: "NON_FINITE_LOG",
+              severity: "warning",
+              step: "MER-04",
+              alternativeIndex: i,
+              criterionIndex: k,
+              message:
+                `Nilai ln tidak terbatas pada removal alternatif ${i}, ` +
+                `kriteria ${k} (menghilangkan ${j}). nx_ik = ${nx_ik}, menggunakan epsilon.`,
+            });
             sumAbsLnWithoutJ += Math.abs(Math.log(epsilon));
           } else {
             sumAbsLnWithoutJ += absLnValue;
@@ -69,10 +91,16 @@ export function calculateRemovalPerformance(
 
       // Jika semua kriteria dihilangkan (n=1), gunakan nilai default
       if (countWithoutJ === 0) {
-        console.warn(
-          `Hanya ada 1 kriteria, tidak bisa menghilangkan kriteria ${j}. ` +
-            `Menggunakan nilai default untuk S'_${i}${j}.`
-        );
+        report({
+          code: "SINGLE_CRITERION_REMOVAL",
+          severity: "info",
+          step: "MER-04",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Hanya ada 1 kriteria, tidak bisa menghilangkan kriteria ${j}. ` +
+            `Menggunakan nilai default untuk S'_${i}${j}.`,
+        });
         removalRow.push(0);
         continue;
       }
@@ -85,10 +113,16 @@ export function calculateRemovalPerformance(
 
       // Validasi hasil akhir
       if (!isFinite(S_prime_ij)) {
-        console.warn(
-          `Kinerja removal tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
-            `avgAbsLnWithoutJ = ${avgAbsLnWithoutJ}, menggunakan nilai default.`
-        );
+        report({
+          code: "NON_FINITE_REMOVAL_PERFORMANCE",
+          severity: "warning",
+          step: "MER-04",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Kinerja removal tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
+            `avgAbsLnWithoutJ = ${avgAbsLnWithoutJ}, menggunakan nilai default.`,
+        });
         removalRow.push(0);
       } else {
         removalRow.push(S_prime_ij);
@@ -104,22 +138,29 @@ export function calculateRemovalPerformance(
 /**
  * Validasi hasil kinerja removal
  * @param removalPerformances - Matriks kinerja removal S'_ij
+ * @param report - Penerima diagnostik (opsional)
  */
 export function validateRemovalPerformance(
-  removalPerformances: number[][]
+  removalPerformances: number[][],
+  report: DiagnosticReporter = ignoreDiagnostics
 ): void {
   const m = removalPerformances.length;
 
   if (m === 0) {
-    throw new Error("Matriks kinerja removal tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Matriks kinerja removal tidak boleh kosong"
+    );
   }
 
   const n = removalPerformances[0]?.length || 0;
 
   for (let i = 0; i < m; i++) {
     if (removalPerformances[i].length !== n) {
-      throw new Error(
-        `Panjang baris ${i} tidak konsisten dalam matriks kinerja removal`
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Panjang baris ${i} tidak konsisten dalam matriks kinerja removal`,
+        { row: i, expected: n, actual: removalPerformances[i].length }
       );
     }
 
@@ -127,16 +168,24 @@ export function validateRemovalPerformance(
       const S_prime_ij = removalPerformances[i][j];
 
       if (!isFinite(S_prime_ij)) {
-        throw new Error(
-          `Kinerja removal tidak valid pada posisi [${i}][${j}]: ${S_prime_ij}`
+        throw new MerecDegenerateError(
+          "INVALID_REMOVAL_PERFORMANCE",
+          `Kinerja removal tidak valid pada posisi [${i}][${j}]: ${S_prime_ij}`,
+          { row: i, column: j, value: S_prime_ij }
         );
       }
 
       if (S_prime_ij < 0) {
-        console.warn(
-          `Kinerja removal negatif pada posisi [${i}][${j}]: ${S_prime_ij}. ` +
-            `Ini mungkin menunjukkan masalah dalam normalisasi.`
-        );
+        report({
+          code: "NEGATIVE_REMOVAL_PERFORMANCE",
+          severity: "warning",
+          step: "MER-04",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Kinerja removal negatif pada posisi [${i}][${j}]: ${S_prime_ij}. ` +
+            `Ini mungkin menunjukkan masalah dalam normalisasi.`,
+        });
       }
     }
   }
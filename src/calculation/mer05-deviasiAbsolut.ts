@@ -11,33 +11,47 @@
  * E_j = Σ_i |S'_ij - S_i|
  */
 
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecDegenerateError, MerecInputError } from "../errors";
+import { DiagnosticReporter } from "../types";
+
 /**
  * Menghitung jumlah deviasi absolut untuk setiap kriteria
  * @param performances - Array kinerja keseluruhan S_i dari MER-03
  * @param removalPerformances - Matriks kinerja removal S'_ij dari MER-04
+ * @param report - Penerima diagnostik (opsional)
  * @returns Array E_j yang menunjukkan dampak penghapusan setiap kriteria
  */
 export function calculateAbsoluteDeviations(
   performances: number[],
-  removalPerformances: number[][]
+  removalPerformances: number[][],
+  report: DiagnosticReporter = ignoreDiagnostics
 ): number[] {
   const m = performances.length; // jumlah alternatif
   const n = removalPerformances[0]?.length || 0; // jumlah kriteria
 
   // Validasi input
   if (m === 0) {
-    throw new Error("Array kinerja keseluruhan tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Array kinerja keseluruhan tidak boleh kosong"
+    );
   }
 
   if (removalPerformances.length !== m) {
-    throw new Error(
+    throw new MerecInputError(
+      "ROW_LENGTH_MISMATCH",
       `Jumlah baris matriks removal (${removalPerformances.length}) ` +
-        `tidak sesuai dengan jumlah alternatif (${m})`
+        `tidak sesuai dengan jumlah alternatif (${m})`,
+      { expected: m, actual: removalPerformances.length }
     );
   }
 
   if (n === 0) {
-    throw new Error("Matriks kinerja removal tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Matriks kinerja removal tidak boleh kosong"
+    );
   }
 
   const deviations: number[] = [];
@@ -53,17 +67,29 @@ export function calculateAbsoluteDeviations(
 
       // Validasi nilai sebelum perhitungan
       if (!isFinite(S_i)) {
-        console.warn(
-          `Kinerja keseluruhan tidak terbatas pada alternatif ${i}: ${S_i}. ` +
-            `Menggunakan 0 untuk perhitungan deviasi.`
-        );
+        report({
+          code: "NON_FINITE_PERFORMANCE",
+          severity: "warning",
+          step: "MER-05",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Kinerja keseluruhan tidak terbatas pada alternatif ${i}: ${S_i}. ` +
+            `Menggunakan 0 untuk perhitungan deviasi.`,
+        });
       }
 
       if (!isFinite(S_prime_ij)) {
-        console.warn(
-          `Kinerja removal tidak terbatas pada posisi [${i}][${j}]: ${S_prime_ij}. ` +
-            `Menggunakan 0 untuk perhitungan deviasi.`
-        );
+        report({
+          code: "NON_FINITE_REMOVAL_PERFORMANCE",
+          severity: "warning",
+          step: "MER-05",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Kinerja removal tidak terbatas pada posisi [${i}][${j}]: ${S_prime_ij}. ` +
+            `Menggunakan 0 untuk perhitungan deviasi.`,
+        });
       }
 
       // Hitung |S'_ij - S_i|
@@ -76,10 +102,15 @@ export function calculateAbsoluteDeviations(
 
     // Validasi hasil E_j
     if (!isFinite(E_j)) {
-      console.warn(
-        `Deviasi absolut tidak terbatas untuk kriteria ${j}: ${E_j}. ` +
-          `Menggunakan 0.`
-      );
+      report({
+        code: "NON_FINITE_DEVIATION",
+        severity: "warning",
+        step: "MER-05",
+        criterionIndex: j,
+        message:
+          `Deviasi absolut tidak terbatas untuk kriteria ${j}: ${E_j}. ` +
+          `Menggunakan 0.`,
+      });
       E_j = 0;
     }
 
@@ -95,19 +126,28 @@ export function calculateAbsoluteDeviations(
  */
 export function validateAbsoluteDeviations(deviations: number[]): void {
   if (deviations.length === 0) {
-    throw new Error("Array deviasi absolut tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Array deviasi absolut tidak boleh kosong"
+    );
   }
 
   for (let j = 0; j < deviations.length; j++) {
     const E_j = deviations[j];
 
     if (!isFinite(E_j)) {
-      throw new Error(`Deviasi absolut tidak valid pada kriteria ${j}: ${E_j}`);
+      throw new MerecDegenerateError(
+        "INVALID_DEVIATION",
+        `Deviasi absolut tidak valid pada kriteria ${j}: ${E_j}`,
+        { column: j, value: E_j }
+      );
     }
 
     if (E_j < 0) {
-      throw new Error(
-        `Deviasi absolut tidak boleh negatif pada kriteria ${j}: ${E_j}`
+      throw new MerecDegenerateError(
+        "INVALID_DEVIATION",
+        `Deviasi absolut tidak boleh negatif pada kriteria ${j}: ${E_j}`,
+        { column: j, value: E_j }
       );
     }
   }
@@ -13,17 +13,28 @@
  * - Σ_k E_k adalah total semua deviasi absolut
  */
 
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecDegenerateError, MerecInputError } from "../errors";
+import { DiagnosticReporter } from "../types";
+
 /**
  * Menghitung bobot akhir kriteria berdasarkan deviasi absolut
  * @param deviations - Array deviasi absolut E_j dari MER-05
+ * @param report - Penerima diagnostik (opsional)
  * @returns Array bobot w_j untuk setiap kriteria
  */
-export function calculateFinalWeights(deviations: number[]): number[] {
+export function calculateFinalWeights(
+  deviations: number[],
+  report: DiagnosticReporter = ignoreDiagnostics
+): number[] {
   const n = deviations.length; // jumlah kriteria
 
   // Validasi input
   if (n === 0) {
-    throw new Error("Array deviasi absolut tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Array deviasi absolut tidak boleh kosong"
+    );
   }
 
   // Hitung total deviasi: Σ_k E_k
@@ -31,9 +42,13 @@ export function calculateFinalWeights(deviations: number[]): number[] {
 
   // Jika total deviasi adalah 0, berikan bobot yang sama untuk semua kriteria
   if (totalDeviations === 0 || !isFinite(totalDeviations)) {
-    console.warn(
-      "Total deviasi adalah 0 atau tidak terbatas, menggunakan bobot yang sama untuk semua kriteria"
-    );
+    report({
+      code: "EQUAL_WEIGHT_FALLBACK",
+      severity: "warning",
+      step: "MER-06",
+      message:
+        "Total deviasi adalah 0 atau tidak terbatas, menggunakan bobot yang sama untuk semua kriteria",
+    });
     const equalWeight = 1 / n;
     return new Array(n).fill(equalWeight);
   }
@@ -46,19 +61,29 @@ export function calculateFinalWeights(deviations: number[]): number[] {
 
     // Validasi E_j
     if (!isFinite(E_j)) {
-      console.warn(
-        `Deviasi tidak terbatas pada kriteria ${j}: ${E_j}. ` +
-          `Menggunakan 0 untuk perhitungan bobot.`
-      );
+      report({
+        code: "NON_FINITE_DEVIATION",
+        severity: "warning",
+        step: "MER-06",
+        criterionIndex: j,
+        message:
+          `Deviasi tidak terbatas pada kriteria ${j}: ${E_j}. ` +
+          `Menggunakan 0 untuk perhitungan bobot.`,
+      });
       weights.push(0);
       continue;
     }
 
     if (E_j < 0) {
-      console.warn(
-        `Deviasi negatif pada kriteria ${j}: ${E_j}. ` +
-          `Menggunakan nilai absolut.`
-      );
+      report({
+        code: "NEGATIVE_DEVIATION",
+        severity: "warning",
+        step: "MER-06",
+        criterionIndex: j,
+        message:
+          `Deviasi negatif pada kriteria ${j}: ${E_j}. ` +
+          `Menggunakan nilai absolut.`,
+      });
     }
 
     // Hitung bobot
@@ -70,10 +95,14 @@ export function calculateFinalWeights(deviations: number[]): number[] {
   const totalWeights = weights.reduce((sum, w) => sum + w, 0);
 
   if (Math.abs(totalWeights - 1) > 1e-10) {
-    console.warn(
-      `Total bobot tidak sama dengan 1: ${totalWeights}. ` +
-        `Melakukan normalisasi ulang.`
-    );
+    report({
+      code: "WEIGHTS_RENORMALIZED",
+      severity: "warning",
+      step: "MER-06",
+      message:
+        `Total bobot tidak sama dengan 1: ${totalWeights}. ` +
+        `Melakukan normalisasi ulang.`,
+    });
 
     // Normalisasi ulang jika total tidak = 1
     if (totalWeights > 0) {
@@ -96,7 +125,10 @@ export function calculateFinalWeights(deviations: number[]): number[] {
  */
 export function validateFinalWeights(weights: number[]): void {
   if (weights.length === 0) {
-    throw new Error("Array bobot tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Array bobot tidak boleh kosong"
+    );
   }
 
   let totalWeight = 0;
@@ -105,16 +137,26 @@ export function validateFinalWeights(weights: number[]): void {
     const w_j = weights[j];
 
     if (!isFinite(w_j)) {
-      throw new Error(`Bobot tidak valid pada kriteria ${j}: ${w_j}`);
+      throw new MerecDegenerateError(
+        "INVALID_WEIGHT",
+        `Bobot tidak valid pada kriteria ${j}: ${w_j}`,
+        { column: j, value: w_j }
+      );
     }
 
     if (w_j < 0) {
-      throw new Error(`Bobot tidak boleh negatif pada kriteria ${j}: ${w_j}`);
+      throw new MerecDegenerateError(
+        "INVALID_WEIGHT",
+        `Bobot tidak boleh negatif pada kriteria ${j}: ${w_j}`,
+        { column: j, value: w_j }
+      );
     }
 
     if (w_j > 1) {
-      throw new Error(
-        `Bobot tidak boleh lebih dari 1 pada kriteria ${j}: ${w_j}`
+      throw new MerecDegenerateError(
+        "INVALID_WEIGHT",
+        `Bobot tidak boleh lebih dari 1 pada kriteria ${j}: ${w_j}`,
+        { column: j, value: w_j }
       );
     }
 
@@ -123,8 +165,10 @@ export function validateFinalWeights(weights: number[]): void {
 
   // Toleransi untuk floating point precision
   if (Math.abs(totalWeight - 1) > 1e-10) {
-    throw new Error(
-      `Total bobot harus sama dengan 1, tetapi mendapat: ${totalWeight}`
+    throw new MerecDegenerateError(
+      "WEIGHT_SUM_MISMATCH",
+      `Total bobot harus sama dengan 1, tetapi mendapat: ${totalWeight}`,
+      { expected: 1, actual: totalWeight }
     );
   }
 }
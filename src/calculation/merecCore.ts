@@ -0,0 +1,509 @@
+/**
+ * Inti Perhitungan MEREC (MER-02 sampai MER-05) berbasis Float64Array
+ *
+ * Implementasi langkah MER-02..MER-05 dengan kompleksitas O(m·n) untuk matriks besar
+ * (puluhan ribu alternatif, ratusan kriteria). Data disimpan row-major pada Float64Array.
+ *
+ * Perbedaan dengan fungsi pada mer02..mer05:
+ * - Nilai ekstrem setiap kolom (min/max) dihitung satu kali, tanpa spread operator,
+ *   sehingga aman untuk kolom yang sangat panjang
+ * - Jumlah |ln(nx_ij)| setiap baris dihitung satu kali. S'_ij diperoleh dari jumlah
+ *   prefiks dan sufiks baris: Σ_k,k≠j |ln(nx_ik)| = P_i(j) + Q_i(j + 1)
+ *
+ * Hasilnya identik dengan fungsi pada mer02..mer05 hingga pembulatan floating point
+ * (MER-02 dan MER-03 identik bit per bit).
+ */
+
+import { ignoreDiagnostics } from "../diagnostics";
+import { MerecInputError } from "../errors";
+import { Criteria, DiagnosticReporter, NormalizationScheme } from "../types";
+import {
+  calculateTargetDeviation,
+  normalizeColumnByScheme,
+} from "./mer02-normalisasi";
+
+/**
+ * Matriks padat row-major: elemen (i, j) berada pada data[i * cols + j]
+ */
+export interface DenseMatrix {
+  /** Jumlah baris (alternatif) */
+  rows: number;
+  /** Jumlah kolom (kriteria) */
+  cols: number;
+  /** Nilai matriks row-major */
+  data: Float64Array;
+}
+
+/**
+ * Hasil antara MER-03 yang dipakai ulang oleh MER-04
+ */
+export interface RowLogSums {
+  /** |ln(nx_ij)| setiap sel (NaN untuk sel hilang) */
+  absLn: DenseMatrix;
+  /** Σ_j |ln(nx_ij)| setiap baris */
+  rowSums: Float64Array;
+  /** Jumlah sel teramati setiap baris */
+  rowCounts: Int32Array;
+}
+
+/**
+ * Mengubah matriks number[][] menjadi matriks padat
+ * @param matrix - Matriks (m x n)
+ * @returns Matriks padat
+ */
+export function toDenseMatrix(matrix: number[][]): DenseMatrix {
+  const rows = matrix.length;
+  const cols = matrix[0]?.length || 0;
+  const data = new Float64Array(rows * cols);
+
+  for (let i = 0; i < rows; i++) {
+    const row = matrix[i];
+    const offset = i * cols;
+    for (let j = 0; j < cols; j++) {
+      data[offset + j] = row[j];
+    }
+  }
+
+  return { rows, cols, data };
+}
+
+/**
+ * Mengubah matriks padat menjadi number[][]
+ * @param dense - Matriks padat
+ * @returns Matriks (m x n)
+ */
+export function fromDenseMatrix(dense: DenseMatrix): number[][] {
+  const { rows, cols, data } = dense;
+  const matrix: number[][] = new Array(rows);
+
+  for (let i = 0; i < rows; i++) {
+    matrix[i] = Array.from(data.subarray(i * cols, (i + 1) * cols));
+  }
+
+  return matrix;
+}
+
+/**
+ * MER-02: Normalisasi matriks keputusan dalam O(m·n)
+ * @param matrix - Matriks keputusan X padat (m x n)
+ * @param criteria - Array kriteria
+ * @param epsilon - Nilai kecil untuk menghindari pembagian dengan nol
+ * @param report - Penerima diagnostik (opsional)
+ * @param scheme - Skema normalisasi (default: "merec")
+ * @returns Matriks normalisasi N padat (m x n)
+ */
+export function calculateNormalizedMatrixDense(
+  matrix: DenseMatrix,
+  criteria: Criteria[],
+  epsilon: number = 1e-10,
+  report: DiagnosticReporter = ignoreDiagnostics,
+  scheme: NormalizationScheme = "merec"
+): DenseMatrix {
+  const { rows: m, cols: n, data: x } = matrix;
+
+  if (n !== criteria.length) {
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah kolom matriks (${n}) tidak sesuai dengan jumlah kriteria (${criteria.length})`,
+      { expected: criteria.length, actual: n }
+    );
+  }
+
+  // Nilai ekstrem setiap kolom (hanya sel teramati), dihitung satu kali
+  const minValues = new Float64Array(n).fill(Infinity);
+  const maxValues = new Float64Array(n).fill(-Infinity);
+
+  for (let i = 0; i < m; i++) {
+    const offset = i * n;
+    for (let j = 0; j < n; j++) {
+      const value = x[offset + j];
+      if (Number.isNaN(value)) {
+        continue;
+      }
+      if (value < minValues[j]) {
+        minValues[j] = value;
+      }
+      if (value > maxValues[j]) {
+        maxValues[j] = value;
+      }
+    }
+  }
+
+  // Rentang dan jarak maksimum untuk kriteria target
+  const targetRanges = new Float64Array(n);
+  const maxDeviations = new Float64Array(n);
+
+  for (let j = 0; j < n; j++) {
+    if (criteria[j].type !== "target") {
+      continue;
+    }
+
+    const target = criteria[j].target as number;
+    targetRanges[j] =
+      Math.max(maxValues[j], target) - Math.min(minValues[j], target);
+
+    for (let i = 0; i < m; i++) {
+      const value = x[i * n + j];
+      if (!Number.isNaN(value)) {
+        maxDeviations[j] = Math.max(
+          maxDeviations[j],
+          calculateTargetDeviation(value, criteria[j])
+        );
+      }
+    }
+  }
+
+  const normalized = new Float64Array(m * n);
+
+  for (let i = 0; i < m; i++) {
+    const offset = i * n;
+
+    for (let j = 0; j < n; j++) {
+      const currentValue = x[offset + j];
+
+      // Sel hilang (NaN) tetap hilang pada matriks normalisasi
+      if (Number.isNaN(currentValue)) {
+        normalized[offset + j] = NaN;
+        continue;
+      }
+
+      const criteriaType = criteria[j].type;
+      let normalizedValue: number;
+
+      if (criteriaType === "target") {
+        // nx_ij = (1 + d_ij / R_j) / (1 + max_k(d_kj) / R_j)
+        const range = targetRanges[j];
+        const deviation = calculateTargetDeviation(currentValue, criteria[j]);
+
+        normalizedValue =
+          range > 0
+            ? (1 + deviation / range) / (1 + maxDeviations[j] / range)
+            : 1;
+      } else if (criteriaType === "benefit") {
+        // nx_ij = min_k(x_kj) / x_ij
+        const minValue = minValues[j];
+
+        if (minValue <= 0) {
+          report({
+            code: "NON_POSITIVE_BENEFIT_MIN",
+            severity: "warning",
+            step: "MER-02",
+            alternativeIndex: i,
+            criterionIndex: j,
+            message: `Kriteria benefit '${criteria[j].name}' memiliki nilai minimum <= 0, menggunakan epsilon`,
+          });
+          normalizedValue = epsilon;
+        } else {
+          normalizedValue = minValue / Math.max(currentValue, epsilon);
+        }
+      } else {
+        // nx_ij = x_ij / max_k(x_kj)
+        const maxValue = maxValues[j];
+
+        if (maxValue === 0) {
+          report({
+            code: "ZERO_COST_MAX",
+            severity: "warning",
+            step: "MER-02",
+            alternativeIndex: i,
+            criterionIndex: j,
+            message: `Kriteria cost '${criteria[j].name}' memiliki nilai maksimum 0, menggunakan epsilon`,
+          });
+          normalizedValue = epsilon;
+        } else {
+          normalizedValue = Math.max(currentValue, epsilon) / maxValue;
+        }
+      }
+
+      normalized[offset + j] = normalizedValue;
+    }
+  }
+
+  if (scheme !== "merec") {
+    applyNormalizationSchemeDense(
+      x,
+      normalized,
+      m,
+      n,
+      criteria,
+      scheme,
+      epsilon
+    );
+  }
+
+  return { rows: m, cols: n, data: normalized };
+}
+
+/**
+ * Menerapkan skema normalisasi lain pada nilai matriks keputusan X (mengubah `normalized` secara langsung)
+ * @param x - Data matriks keputusan
+ * @param normalized - Data matriks normalisasi MEREC u
+ * @param m - Jumlah alternatif
+ * @param n - Jumlah kriteria
+ * @param criteria - Array kriteria
+ * @param scheme - Skema normalisasi
+ * @param epsilon - Nilai kecil untuk menjaga nilai tetap positif
+ */
+function applyNormalizationSchemeDense(
+  x: Float64Array,
+  normalized: Float64Array,
+  m: number,
+  n: number,
+  criteria: Criteria[],
+  scheme: NormalizationScheme,
+  epsilon: number
+): void {
+  for (let j = 0; j < n; j++) {
+    // Hanya sel yang teramati (bukan NaN) yang ikut dihitung
+    const rows: number[] = [];
+    const values: number[] = [];
+    for (let i = 0; i < m; i++) {
+      const value = x[i * n + j];
+      if (!Number.isNaN(value)) {
+        rows.push(i);
+        values.push(value);
+      }
+    }
+
+    const column = normalizeColumnByScheme(
+      values,
+      criteria[j],
+      scheme,
+      epsilon
+    );
+    rows.forEach((i, k) => {
+      normalized[i * n + j] = column[k];
+    });
+  }
+}
+
+/**
+ * MER-03 (bagian 1): Menghitung |ln(nx_ij)| dan jumlahnya setiap baris satu kali
+ * @param normalizedMatrix - Matriks normalisasi N padat (m x n)
+ * @param epsilon - Nilai kecil untuk menghindari ln(0)
+ * @param report - Penerima diagnostik (opsional)
+ * @returns |ln(nx_ij)|, jumlah per baris, dan jumlah sel teramati per baris
+ */
+export function calculateRowLogSums(
+  normalizedMatrix: DenseMatrix,
+  epsilon: number = 1e-10,
+  report: DiagnosticReporter = ignoreDiagnostics
+): RowLogSums {
+  const { rows: m, cols: n, data } = normalizedMatrix;
+
+  if (m === 0 || n === 0) {
+    throw new MerecInputError(
+      "EMPTY_STEP_INPUT",
+      "Matriks normalisasi tidak boleh kosong"
+    );
+  }
+
+  const absLn = new Float64Array(m * n);
+  const rowSums = new Float64Array(m);
+  const rowCounts = new Int32Array(m);
+
+  for (let i = 0; i < m; i++) {
+    const offset = i * n;
+    let sumAbsLn = 0;
+    let count = 0;
+
+    for (let j = 0; j < n; j++) {
+      const nx_ij = data[offset + j];
+
+      // Sel hilang (NaN) dilewati dari rata-rata
+      if (Number.isNaN(nx_ij)) {
+        absLn[offset + j] = NaN;
+        continue;
+      }
+      count++;
+
+      let absLnValue = Math.abs(Math.log(Math.max(nx_ij, epsilon)));
+
+      if (!isFinite(absLnValue)) {
+        report({
+          code: "NON_FINITE_LOG",
+          severity: "warning",
+          step: "MER-03",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Nilai ln tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
+            `nx_ij = ${nx_ij}, menggunakan epsilon.`,
+        });
+        absLnValue = Math.abs(Math.log(epsilon));
+      }
+
+      absLn[offset + j] = absLnValue;
+      sumAbsLn += absLnValue;
+    }
+
+    rowSums[i] = sumAbsLn;
+    rowCounts[i] = count;
+  }
+
+  return { absLn: { rows: m, cols: n, data: absLn }, rowSums, rowCounts };
+}
+
+/**
+ * MER-03 (bagian 2): Menghitung kinerja keseluruhan S_i = ln(1 + Σ_j |ln(nx_ij)| / n_i)
+ * @param logSums - Hasil calculateRowLogSums
+ * @param report - Penerima diagnostik (opsional)
+ * @returns Kinerja keseluruhan S_i setiap alternatif
+ */
+export function calculateOverallPerformanceDense(
+  logSums: RowLogSums,
+  report: DiagnosticReporter = ignoreDiagnostics
+): Float64Array {
+  const { rowSums, rowCounts } = logSums;
+  const m = rowSums.length;
+  const performances = new Float64Array(m);
+
+  for (let i = 0; i < m; i++) {
+    const avgAbsLn = rowSums[i] / rowCounts[i];
+    const S_i = Math.log(1 + avgAbsLn);
+
+    if (!isFinite(S_i)) {
+      report({
+        code: "NON_FINITE_PERFORMANCE",
+        severity: "warning",
+        step: "MER-03",
+        alternativeIndex: i,
+        message:
+          `Kinerja tidak terbatas pada alternatif ${i}. ` +
+          `avgAbsLn = ${avgAbsLn}, menggunakan nilai default.`,
+      });
+      performances[i] = 0;
+    } else {
+      performances[i] = S_i;
+    }
+  }
+
+  return performances;
+}
+
+/**
+ * MER-04: Menghitung kinerja removal S'_ij dalam O(m·n) dengan jumlah prefiks dan sufiks
+ * @param logSums - Hasil calculateRowLogSums
+ * @param report - Penerima diagnostik (opsional)
+ * @returns Matriks S'_ij padat (m x n)
+ */
+export function calculateRemovalPerformanceDense(
+  logSums: RowLogSums,
+  report: DiagnosticReporter = ignoreDiagnostics
+): DenseMatrix {
+  const { absLn, rowCounts } = logSums;
+  const { rows: m, cols: n, data } = absLn;
+  const removal = new Float64Array(m * n);
+
+  // P(j) = Σ_k<j, Q(j) = Σ_k>=j (sel hilang dihitung 0)
+  const prefix = new Float64Array(n + 1);
+  const suffix = new Float64Array(n + 1);
+
+  for (let i = 0; i < m; i++) {
+    const offset = i * n;
+
+    for (let j = 0; j < n; j++) {
+      const value = data[offset + j];
+      prefix[j + 1] = prefix[j] + (Number.isNaN(value) ? 0 : value);
+    }
+    suffix[n] = 0;
+    for (let j = n - 1; j >= 0; j--) {
+      const value = data[offset + j];
+      suffix[j] = suffix[j + 1] + (Number.isNaN(value) ? 0 : value);
+    }
+
+    for (let j = 0; j < n; j++) {
+      const countWithoutJ =
+        rowCounts[i] - (Number.isNaN(data[offset + j]) ? 0 : 1);
+
+      // Jika semua kriteria dihilangkan (n=1), gunakan nilai default
+      if (countWithoutJ === 0) {
+        report({
+          code: "SINGLE_CRITERION_REMOVAL",
+          severity: "info",
+          step: "MER-04",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Hanya ada 1 kriteria, tidak bisa menghilangkan kriteria ${j}. ` +
+            `Menggunakan nilai default untuk S'_${i}${j}.`,
+        });
+        removal[offset + j] = 0;
+        continue;
+      }
+
+      const avgAbsLnWithoutJ = (prefix[j] + suffix[j + 1]) / countWithoutJ;
+      const S_prime_ij = Math.log(1 + avgAbsLnWithoutJ);
+
+      if (!isFinite(S_prime_ij)) {
+        report({
+          code: "NON_FINITE_REMOVAL_PERFORMANCE",
+          severity: "warning",
+          step: "MER-04",
+          alternativeIndex: i,
+          criterionIndex: j,
+          message:
+            `Kinerja removal tidak terbatas pada alternatif ${i}, kriteria ${j}. ` +
+            `avgAbsLnWithoutJ = ${avgAbsLnWithoutJ}, menggunakan nilai default.`,
+        });
+        removal[offset + j] = 0;
+      } else {
+        removal[offset + j] = S_prime_ij;
+      }
+    }
+  }
+
+  return { rows: m, cols: n, data: removal };
+}
+
+/**
+ * MER-05: Menghitung deviasi absolut E_j = Σ_i |S'_ij - S_i|
+ * @param performances - Kinerja keseluruhan S_i
+ * @param removalPerformances - Matriks S'_ij padat (m x n)
+ * @param report - Penerima diagnostik (opsional)
+ * @returns Deviasi absolut E_j setiap kriteria
+ */
+export function calculateAbsoluteDeviationsDense(
+  performances: Float64Array,
+  removalPerformances: DenseMatrix,
+  report: DiagnosticReporter = ignoreDiagnostics
+): Float64Array {
+  const { rows: m, cols: n, data } = removalPerformances;
+
+  if (performances.length !== m) {
+    throw new MerecInputError(
+      "ROW_LENGTH_MISMATCH",
+      `Jumlah baris matriks removal (${m}) ` +
+        `tidak sesuai dengan jumlah alternatif (${performances.length})`,
+      { expected: performances.length, actual: m }
+    );
+  }
+
+  const deviations = new Float64Array(n);
+
+  // Penjumlahan per baris dengan urutan i yang sama seperti mer05
+  for (let i = 0; i < m; i++) {
+    const S_i = performances[i];
+    const offset = i * n;
+    for (let j = 0; j < n; j++) {
+      deviations[j] += Math.abs(data[offset + j] - S_i);
+    }
+  }
+
+  for (let j = 0; j < n; j++) {
+    if (!isFinite(deviations[j])) {
+      report({
+        code: "NON_FINITE_DEVIATION",
+        severity: "warning",
+        step: "MER-05",
+        criterionIndex: j,
+        message:
+          `Deviasi absolut tidak terbatas untuk kriteria ${j}: ${deviations[j]}. ` +
+          `Menggunakan 0.`,
+      });
+      deviations[j] = 0;
+    }
+  }
+
+  return deviations;
+}
@@ -0,0 +1,31 @@
+/**
+ * Diagnostic helpers shared by the MEREC calculation steps
+ */
+
+import { DiagnosticReporter, MerecDiagnostic } from "./types";
+
+/**
+ * Reporter that discards every diagnostic (default for the step functions)
+ */
+export const ignoreDiagnostics: DiagnosticReporter = () => {};
+
+/**
+ * Create a reporter that collects diagnostics and forwards them to an optional logger
+ * @param logger - Optional user-supplied logger
+ * @returns Collected diagnostics and the reporter feeding them
+ */
+export function createDiagnosticCollector(logger?: DiagnosticReporter): {
+  warnings: MerecDiagnostic[];
+  report: DiagnosticReporter;
+} {
+  const warnings: MerecDiagnostic[] = [];
+
+  const report: DiagnosticReporter = (diagnostic) => {
+    warnings.push(diagnostic);
+    if (logger) {
+      logger(diagnostic);
+    }
+  };
+
+  return { warnings, report };
+}
@@ -0,0 +1,123 @@
+/**
+ * Error classes for the MEREC algorithm
+ *
+ * Every error carries a stable machine-readable `code` and structured `context`,
+ * so callers can branch on failures without matching the (Indonesian) message text.
+ */
+
+/**
+ * Machine-readable error code
+ */
+export type MerecErrorCode =
+  // Input shape
+  | "EMPTY_MATRIX"
+  | "EMPTY_CRITERIA"
+  | "EMPTY_ALTERNATIVES"
+  | "EMPTY_STEP_INPUT"
+  | "COLUMN_COUNT_MISMATCH"
+  | "ROW_LENGTH_MISMATCH"
+  | "ROW_COUNT_MISMATCH"
+  | "EMPTY_ID"
+  | "DUPLICATE_ID"
+  | "INVALID_OPTION"
+  | "INVALID_CRITERIA"
+  | "INFEASIBLE_CONSTRAINTS"
+  // Cell values
+  | "NON_FINITE_VALUE"
+  | "NON_POSITIVE_VALUE"
+  | "MISSING_VALUE"
+  | "ALL_VALUES_MISSING"
+  | "INVALID_FUZZY_NUMBER"
+  | "INVALID_INTERVAL"
+  // Degenerate intermediate results
+  | "INVALID_NORMALIZED_VALUE"
+  | "INVALID_PERFORMANCE"
+  | "INVALID_REMOVAL_PERFORMANCE"
+  | "INVALID_DEVIATION"
+  | "INVALID_WEIGHT"
+  | "WEIGHT_SUM_MISMATCH"
+  // Pairwise judgments
+  | "NON_RECIPROCAL_JUDGMENT"
+  | "INCONSISTENT_JUDGMENTS";
+
+/**
+ * Structured error context (row and column indices are zero-based)
+ */
+export interface MerecErrorContext {
+  /** Row (alternative) index */
+  row?: number;
+  /** Column (criterion) index */
+  column?: number;
+  /** Offending value */
+  value?: number;
+  /** Expected count or total */
+  expected?: number;
+  /** Actual count or total */
+  actual?: number;
+  /** Offending alternative or criterion id */
+  id?: string;
+}
+
+/**
+ * Base class for every error thrown by this package
+ */
+export class MerecError extends Error {
+  /** Machine-readable error code */
+  readonly code: MerecErrorCode;
+  /** Structured context of the failure */
+  readonly context: MerecErrorContext;
+
+  constructor(
+    code: MerecErrorCode,
+    message: string,
+    context: MerecErrorContext = {}
+  ) {
+    super(message);
+    this.name = "MerecError";
+    this.code = code;
+    this.context = context;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Input has the wrong shape (empty, mismatched dimensions, invalid ids)
+ */
+export class MerecInputError extends MerecError {
+  constructor(
+    code: MerecErrorCode,
+    message: string,
+    context: MerecErrorContext = {}
+  ) {
+    super(code, message, context);
+    this.name = "MerecInputError";
+  }
+}
+
+/**
+ * A cell value is non-finite or outside the domain required by MEREC
+ */
+export class MerecValueError extends MerecError {
+  constructor(
+    code: MerecErrorCode,
+    message: string,
+    context: MerecErrorContext = {}
+  ) {
+    super(code, message, context);
+    this.name = "MerecValueError";
+  }
+}
+
+/**
+ * The data degenerates into intermediate results that cannot yield valid weights
+ */
+export class MerecDegenerateError extends MerecError {
+  constructor(
+    code: MerecErrorCode,
+    message: string,
+    context: MerecErrorContext = {}
+  ) {
+    super(code, message, context);
+    this.name = "MerecDegenerateError";
+  }
+}
@@ -7,10 +7,130 @@
  */
 
 // Export main calculation function
-export { calculateMerecWeights } from "./merec";
+export {
+  calculateMerecWeights,
+  calculateMerecDetailed,
+  calculateMerecWeightsById,
+  calculateMerecDetailedById,
+} from "./merec";
+
+// Export alternative weighting methods
+export { calculateEntropyWeights } from "./weighting/entropy";
+export { calculateCriticWeights } from "./weighting/critic";
+export { calculateStandardDeviationWeights } from "./weighting/standardDeviation";
+export { compareWeightingMethods } from "./weighting/comparison";
+export { calculateAhpWeights } from "./weighting/ahp";
+export { combineWeights } from "./weighting/synthesis";
+export { constrainWeights } from "./weighting/constraints";
+export { calculateFuzzyMerecWeights } from "./weighting/fuzzyMerec";
+export { calculateIntervalMerecWeights } from "./weighting/intervalMerec";
+export { calculateGroupMerecWeights } from "./weighting/group";
+
+// Export ranking methods
+export { calculateTopsisRanking } from "./ranking/topsis";
+export { calculateVikorRanking } from "./ranking/vikor";
+export { calculateWaspasRanking } from "./ranking/waspas";
+export { calculateMultimooraRanking } from "./ranking/multimoora";
+export { calculateEdasRanking } from "./ranking/edas";
+export { calculateCodasRanking } from "./ranking/codas";
+
+// Export analysis tools
+export { analyzeMerecSensitivity } from "./analysis/sensitivity";
+export { simulateMerecWeights } from "./analysis/monteCarlo";
+export { analyzeAlternativeInfluence } from "./analysis/influence";
+export { testRankReversal } from "./analysis/rankReversal";
+export { analyzeRankAcceptability } from "./analysis/smaa";
+
+// Export error classes
+export {
+  MerecError,
+  MerecInputError,
+  MerecValueError,
+  MerecDegenerateError,
+} from "./errors";
+export type { MerecErrorCode, MerecErrorContext } from "./errors";
 
 // Export basic types
-export type { CriteriaType } from "./types";
+export type {
+  AhpOptions,
+  AhpPriorityMethod,
+  AhpResult,
+  ActiveWeightConstraint,
+  Alternative,
+  AlternativeInfluence,
+  CodasOptions,
+  CodasResult,
+  ColumnTransformation,
+  ConsensusCriterion,
+  Criteria,
+  CriteriaSpec,
+  CriteriaType,
+  DefuzzificationMethod,
+  FuzzyMerecOptions,
+  FuzzyMerecResult,
+  GroupAggregationMean,
+  GroupAggregationStage,
+  GroupMerecOptions,
+  GroupMerecResult,
+  InfluenceResult,
+  Interval,
+  IntervalMerecOptions,
+  IntervalMerecResult,
+  MatrixValue,
+  MissingCell,
+  MissingValuePolicy,
+  MonteCarloOptions,
+  MonteCarloResult,
+  MultimooraResult,
+  DiagnosticReporter,
+  DiagnosticSeverity,
+  EdasResult,
+  MerecDiagnostic,
+  MerecDiagnosticCode,
+  MerecOptions,
+  MerecResult,
+  MerecStep,
+  NoiseDistribution,
+  NoiseScale,
+  NoiseSpecification,
+  NonPositiveStrategy,
+  NormalNoise,
+  NormalizationScheme,
+  RankingMethod,
+  RankingOptions,
+  RankingResult,
+  RankReversalManipulation,
+  RankReversalOptions,
+  RankReversalPair,
+  RankReversalResult,
+  RankReversalScenario,
+  SensitivityInput,
+  SensitivityLevel,
+  SensitivityMode,
+  SensitivityOptions,
+  SensitivityResult,
+  SmaaOptions,
+  SmaaResult,
+  TargetCriteriaSpec,
+  TopsisResult,
+  TriangularFuzzyNumber,
+  TriangularNoise,
+  UniformNoise,
+  VikorOptions,
+  VikorResult,
+  WaspasOptions,
+  WaspasResult,
+  WeightBound,
+  WeightComparison,
+  WeightComparisonOptions,
+  WeightConstraintReport,
+  WeightConstraints,
+  WeightCorrelation,
+  WeightGroupConstraint,
+  WeightSampling,
+  WeightSynthesis,
+  WeightSynthesisOptions,
+} from "./types";
 
 // Default export
 export { calculateMerecWeights as default } from "./merec";
@@ -3,66 +3,122 @@
  * Pure function approach for calculating criteria weights
  */
 
-import { CriteriaType } from "./types";
+import {
+  Alternative,
+  ColumnTransformation,
+  Criteria,
+  CriteriaSpec,
+  CriteriaType,
+  DiagnosticReporter,
+  MatrixValue,
+  MerecOptions,
+  MerecResult,
+  MissingCell,
+  MissingValuePolicy,
+  NonPositiveStrategy,
+  NormalizationScheme,
+} from "./types";
+import { createDiagnosticCollector } from "./diagnostics";
+import { MerecInputError } from "./errors";
 
 // Import calculation functions
 import {
-  calculateDecisionMatrix,
+  calculateDecisionMatrixDetailed,
+  handleMissingValues,
   validateDecisionMatrix,
 } from "./calculation/mer01-matriksKeputusan";
-import {
-  calculateNormalizedMatrix,
-  validateNormalizedMatrix,
-} from "./calculation/mer02-normalisasi";
-import {
-  calculateOverallPerformance,
-  validateOverallPerformance,
-} from "./calculation/mer03-kinerjaKeseluruhan";
-import {
-  calculateRemovalPerformance,
-  validateRemovalPerformance,
-} from "./calculation/mer04-kinerjaRemoval";
-import {
-  calculateAbsoluteDeviations,
-  validateAbsoluteDeviations,
-} from "./calculation/mer05-deviasiAbsolut";
+import { validateNormalizedMatrix } from "./calculation/mer02-normalisasi";
+import { validateOverallPerformance } from "./calculation/mer03-kinerjaKeseluruhan";
+import { validateRemovalPerformance } from "./calculation/mer04-kinerjaRemoval";
+import { validateAbsoluteDeviations } from "./calculation/mer05-deviasiAbsolut";
 import {
   calculateFinalWeights,
   validateFinalWeights,
 } from "./calculation/mer06-bobotAkhir";
+import {
+  calculateAbsoluteDeviationsDense,
+  calculateNormalizedMatrixDense,
+  calculateOverallPerformanceDense,
+  calculateRemovalPerformanceDense,
+  calculateRowLogSums,
+  fromDenseMatrix,
+  toDenseMatrix,
+} from "./calculation/merecCore";
+import { applyWeightConstraints } from "./weighting/constraints";
 
 /**
  * Calculate criteria weights using MEREC algorithm
  * @param matrix - Decision matrix where rows = alternatives, columns = criteria
- * @param criteriaTypes - Array of criteria types ("benefit" or "cost")
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, value handling, normalization scheme)
  * @returns Array of criteria weights [0-1] that sum to 1.0
  */
 export function calculateMerecWeights(
-  matrix: number[][],
-  criteriaTypes: CriteriaType[]
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
 ): number[] {
+  return calculateMerecDetailed(matrix, criteriaTypes, options).weights;
+}
+
+/**
+ * Calculate criteria weights using MEREC algorithm, keeping every intermediate step
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, value handling, normalization scheme)
+ * @returns Detailed result with the output of MER-01 through MER-06
+ */
+export function calculateMerecDetailed(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): MerecResult {
+  const { alternatives, criteria } = createMatrixInput(matrix, criteriaTypes);
+
+  return runMerecPipeline(alternatives, criteria, options);
+}
+
+/**
+ * Validate matrix input and label its rows and columns (A1.., C1..)
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @returns Alternatives and criteria built from the matrix input
+ */
+export function createMatrixInput(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[]
+): { alternatives: Alternative[]; criteria: Criteria[] } {
   // Validasi input
   if (!matrix || matrix.length === 0) {
-    throw new Error("Matrix tidak boleh kosong");
+    throw new MerecInputError("EMPTY_MATRIX", "Matrix tidak boleh kosong");
   }
 
   if (!criteriaTypes || criteriaTypes.length === 0) {
-    throw new Error("Tipe kriteria tidak boleh kosong");
+    throw new MerecInputError(
+      "EMPTY_CRITERIA",
+      "Tipe kriteria tidak boleh kosong"
+    );
   }
 
   const m = matrix.length; // jumlah alternatif
   const n = matrix[0]?.length || 0; // jumlah kriteria
 
   if (n !== criteriaTypes.length) {
-    throw new Error(
-      `Jumlah kolom matrix (${n}) harus sama dengan jumlah tipe kriteria (${criteriaTypes.length})`
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah kolom matrix (${n}) harus sama dengan jumlah tipe kriteria (${criteriaTypes.length})`,
+      { expected: criteriaTypes.length, actual: n }
     );
   }
 
   // Validasi setiap baris memiliki jumlah kolom yang sama
   for (let i = 0; i < m; i++) {
     if (!matrix[i] || matrix[i].length !== n) {
-      throw new Error(`Baris ${i + 1} harus memiliki ${n} kolom`);
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Baris ${i + 1} harus memiliki ${n} kolom`,
+        { row: i, expected: n, actual: matrix[i]?.length ?? 0 }
+      );
     }
   }
 
@@ -73,60 +129,436 @@ export function calculateMerecWeights(
     values: row,
   }));
 
-  const criteria = criteriaTypes.map((type, j) => ({
-    id: `C${j + 1}`,
-    name: `Criteria ${j + 1}`,
-    type,
-  }));
+  const criteria: Criteria[] = criteriaTypes.map((spec, j) =>
+    typeof spec === "string"
+      ? { id: `C${j + 1}`, name: `Criteria ${j + 1}`, type: spec }
+      : { id: `C${j + 1}`, name: `Criteria ${j + 1}`, ...spec }
+  );
 
-  // Suppress console output
-  const originalConsoleLog = console.log;
-  const originalConsoleWarn = console.warn;
-  console.log = () => {};
-  console.warn = () => {};
+  return { alternatives, criteria };
+}
 
-  try {
-    // MER-01: Create Decision Matrix
-    const decisionMatrix = calculateDecisionMatrix(alternatives, criteria);
-    validateDecisionMatrix(decisionMatrix, criteria);
+/**
+ * Calculate criteria weights using MEREC algorithm from named alternatives and criteria
+ * @param alternatives - Alternatives with unique ids and values ordered like `criteria`
+ * @param criteria - Criteria with unique ids and their type ("benefit", "cost" or "target")
+ * @param options - Optional calculation options (logger, value handling, normalization scheme)
+ * @returns Criteria weights keyed by criterion id
+ */
+export function calculateMerecWeightsById(
+  alternatives: Alternative[],
+  criteria: Criteria[],
+  options: MerecOptions = {}
+): Record<string, number> {
+  return calculateMerecDetailedById(alternatives, criteria, options)
+    .weightsById;
+}
 
-    // MER-02: Normalize Decision Matrix
-    const normalizedMatrix = calculateNormalizedMatrix(
-      decisionMatrix,
-      criteria,
-      1e-10
+/**
+ * Calculate criteria weights using MEREC algorithm from named alternatives and criteria,
+ * keeping every intermediate step
+ * @param alternatives - Alternatives with unique ids and values ordered like `criteria`
+ * @param criteria - Criteria with unique ids and their type ("benefit", "cost" or "target")
+ * @param options - Optional calculation options (logger, value handling, normalization scheme)
+ * @returns Detailed result with the output of MER-01 through MER-06
+ */
+export function calculateMerecDetailedById(
+  alternatives: Alternative[],
+  criteria: Criteria[],
+  options: MerecOptions = {}
+): MerecResult {
+  // Validasi input
+  if (!alternatives || alternatives.length === 0) {
+    throw new MerecInputError(
+      "EMPTY_ALTERNATIVES",
+      "Alternatif tidak boleh kosong"
     );
-    validateNormalizedMatrix(normalizedMatrix);
+  }
+
+  if (!criteria || criteria.length === 0) {
+    throw new MerecInputError("EMPTY_CRITERIA", "Kriteria tidak boleh kosong");
+  }
+
+  validateUniqueIds(
+    criteria.map((c) => c.id),
+    "kriteria"
+  );
+  validateUniqueIds(
+    alternatives.map((a) => a.id),
+    "alternatif"
+  );
+
+  const n = criteria.length;
+
+  // Validasi setiap alternatif memiliki nilai untuk semua kriteria
+  for (let i = 0; i < alternatives.length; i++) {
+    const alternative = alternatives[i];
+    if (!alternative.values || alternative.values.length !== n) {
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Alternatif '${alternative.id}' harus memiliki ${n} nilai`,
+        {
+          row: i,
+          id: alternative.id,
+          expected: n,
+          actual: alternative.values?.length ?? 0,
+        }
+      );
+    }
+  }
+
+  return runMerecPipeline(alternatives, criteria, options);
+}
+
+/**
+ * Ensure every id is non-empty and unique
+ * @param ids - List of ids
+ * @param label - Entity label used in the error message
+ */
+function validateUniqueIds(ids: string[], label: string): void {
+  const seen = new Set<string>();
+
+  for (const id of ids) {
+    if (!id) {
+      throw new MerecInputError("EMPTY_ID", `ID ${label} tidak boleh kosong`);
+    }
+
+    if (seen.has(id)) {
+      throw new MerecInputError(
+        "DUPLICATE_ID",
+        `ID ${label} '${id}' duplikat`,
+        {
+          id,
+        }
+      );
+    }
+
+    seen.add(id);
+  }
+}
+
+const CRITERIA_TYPES: CriteriaType[] = ["benefit", "cost", "target"];
+
+/**
+ * Ensure every criterion has a known type and target criteria have a valid target
+ * @param criteria - Criteria in column order
+ */
+function validateCriteria(criteria: Criteria[]): void {
+  criteria.forEach((c, j) => {
+    if (!CRITERIA_TYPES.includes(c.type)) {
+      throw new MerecInputError(
+        "INVALID_CRITERIA",
+        `Tipe kriteria '${c.type}' pada kriteria '${c.name}' tidak dikenal`,
+        { column: j, id: c.id }
+      );
+    }
+
+    if (c.type !== "target") {
+      return;
+    }
+
+    if (typeof c.target !== "number" || !isFinite(c.target)) {
+      throw new MerecInputError(
+        "INVALID_CRITERIA",
+        `Kriteria target '${c.name}' harus memiliki nilai target yang valid`,
+        { column: j, id: c.id }
+      );
+    }
 
-    // MER-03: Calculate Overall Performance
-    const overallPerformances = calculateOverallPerformance(
-      normalizedMatrix,
-      1e-10
+    if (c.acceptableRange) {
+      const [lower, upper] = c.acceptableRange;
+      if (!isFinite(lower) || !isFinite(upper) || lower > upper) {
+        throw new MerecInputError(
+          "INVALID_CRITERIA",
+          `Rentang target kriteria '${c.name}' tidak valid: [${lower}, ${upper}]`,
+          { column: j, id: c.id }
+        );
+      }
+    }
+  });
+}
+
+const NON_POSITIVE_STRATEGIES: NonPositiveStrategy[] = [
+  "legacy",
+  "shift",
+  "minmax",
+  "reject",
+];
+
+/**
+ * Resolve the non-positive value strategy of every criterion from the options
+ * @param criteria - Criteria in column order
+ * @param options - Calculation options
+ * @returns Strategy per column
+ */
+function resolveNonPositiveStrategies(
+  criteria: Criteria[],
+  options: MerecOptions
+): NonPositiveStrategy[] {
+  const overrides = options.nonPositiveStrategyByCriterion ?? {};
+
+  for (const id of Object.keys(overrides)) {
+    if (!criteria.some((c) => c.id === id)) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Kriteria '${id}' pada nonPositiveStrategyByCriterion tidak ditemukan`,
+        { id }
+      );
+    }
+  }
+
+  return criteria.map((c) => {
+    const strategy = overrides[c.id] ?? options.nonPositiveStrategy ?? "legacy";
+
+    if (!NON_POSITIVE_STRATEGIES.includes(strategy)) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Strategi nilai non-positif '${strategy}' tidak dikenal`,
+        { id: c.id }
+      );
+    }
+
+    return strategy;
+  });
+}
+
+const MISSING_VALUE_POLICIES: MissingValuePolicy[] = [
+  "reject",
+  "drop-alternative",
+  "mean",
+  "median",
+  "worst",
+  "skip",
+];
+
+/**
+ * Resolve the missing value policy from the options
+ * @param options - Calculation options
+ * @returns Missing value policy
+ */
+function resolveMissingValuePolicy(options: MerecOptions): MissingValuePolicy {
+  const policy = options.missingValuePolicy ?? "reject";
+
+  if (!MISSING_VALUE_POLICIES.includes(policy)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Kebijakan nilai hilang '${policy}' tidak dikenal`
     );
-    validateOverallPerformance(overallPerformances);
+  }
+
+  return policy;
+}
+
+const NORMALIZATION_SCHEMES: NormalizationScheme[] = [
+  "merec",
+  "vector",
+  "sum-linear",
+  "max-linear",
+  "logarithmic",
+];
 
-    // MER-04: Calculate Removal Performance
-    const removalPerformances = calculateRemovalPerformance(
-      normalizedMatrix,
-      1e-10
+/**
+ * Resolve the normalization scheme from the options
+ * @param options - Calculation options
+ * @returns Normalization scheme
+ */
+function resolveNormalizationScheme(
+  options: MerecOptions
+): NormalizationScheme {
+  const scheme = options.normalization ?? "merec";
+
+  if (!NORMALIZATION_SCHEMES.includes(scheme)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Skema normalisasi '${scheme}' tidak dikenal`
     );
-    validateRemovalPerformance(removalPerformances);
+  }
 
-    // MER-05: Calculate Absolute Deviations
-    const absoluteDeviations = calculateAbsoluteDeviations(
-      overallPerformances,
-      removalPerformances
+  return scheme;
+}
+
+/**
+ * Run MER-01 (missing values, positivity conversion and validation) on already
+ * validated alternatives and criteria
+ * @param inputAlternatives - Alternatives in row order
+ * @param criteria - Criteria in column order
+ * @param options - Calculation options
+ * @param report - Diagnostic reporter
+ * @returns Remaining alternatives, decision matrix, the MER-01 bookkeeping and a
+ * reporter for the later steps that keeps the row indices of the input
+ */
+export function prepareDecisionMatrix(
+  inputAlternatives: Alternative[],
+  criteria: Criteria[],
+  options: MerecOptions,
+  report: DiagnosticReporter
+): {
+  alternatives: Alternative[];
+  decisionMatrix: number[][];
+  transformations: ColumnTransformation[];
+  missingCells: MissingCell[];
+  report: DiagnosticReporter;
+} {
+  validateCriteria(criteria);
+
+  const missingValuePolicy = resolveMissingValuePolicy(options);
+
+  const { alternatives, missingCells } = handleMissingValues(
+    inputAlternatives,
+    criteria,
+    missingValuePolicy,
+    report
+  );
+
+  // Diagnostik setelah alternatif dihapus tetap memakai indeks baris masukan
+  const rowReport =
+    alternatives.length === inputAlternatives.length
+      ? report
+      : reportInputRows(report, inputAlternatives, missingCells);
+
+  const { matrix: decisionMatrix, transformations } =
+    calculateDecisionMatrixDetailed(
+      alternatives,
+      criteria,
+      rowReport,
+      resolveNonPositiveStrategies(criteria, options)
     );
-    validateAbsoluteDeviations(absoluteDeviations);
+  validateDecisionMatrix(
+    decisionMatrix,
+    criteria,
+    missingValuePolicy === "skip"
+  );
 
-    // MER-06: Calculate Final Weights
-    const finalWeights = calculateFinalWeights(absoluteDeviations);
-    validateFinalWeights(finalWeights);
+  return {
+    alternatives,
+    decisionMatrix,
+    transformations,
+    missingCells,
+    report: rowReport,
+  };
+}
 
-    return finalWeights;
-  } finally {
-    // Restore console output
-    console.log = originalConsoleLog;
-    console.warn = originalConsoleWarn;
-  }
+/**
+ * Map the row index of every diagnostic back to the input row after the
+ * "drop-alternative" policy removed the rows with missing cells
+ * @param report - Diagnostic reporter
+ * @param inputAlternatives - Alternatives before the drop
+ * @param missingCells - Missing cells, whose rows were dropped
+ * @returns Reporter that translates the row indices of the remaining alternatives
+ */
+function reportInputRows(
+  report: DiagnosticReporter,
+  inputAlternatives: Alternative[],
+  missingCells: MissingCell[]
+): DiagnosticReporter {
+  const droppedRows = new Set(missingCells.map((c) => c.alternativeIndex));
+  const inputRows = inputAlternatives
+    .map((_, i) => i)
+    .filter((i) => !droppedRows.has(i));
+
+  return (diagnostic) =>
+    report(
+      diagnostic.alternativeIndex === undefined
+        ? diagnostic
+        : {
+            ...diagnostic,
+            alternativeIndex: inputRows[diagnostic.alternativeIndex],
+          }
+    );
+}
+
+/**
+ * Run MER-01 through MER-06 on already validated alternatives and criteria.
+ * MER-02 to MER-05 run on the O(m·n) Float64Array core; intermediate results
+ * are converted back to plain arrays for validation and the returned result.
+ * @param alternatives - Alternatives in row order
+ * @param criteria - Criteria in column order
+ * @param options - Calculation options
+ * @returns Detailed result with every intermediate step
+ */
+function runMerecPipeline(
+  inputAlternatives: Alternative[],
+  criteria: Criteria[],
+  options: MerecOptions
+): MerecResult {
+  const { warnings, report: collect } = createDiagnosticCollector(
+    options.logger
+  );
+  const allowMissing = resolveMissingValuePolicy(options) === "skip";
+  const normalization = resolveNormalizationScheme(options);
+
+  // MER-01: Handle missing values, then create Decision Matrix
+  const {
+    alternatives,
+    decisionMatrix,
+    transformations,
+    missingCells,
+    report,
+  } = prepareDecisionMatrix(inputAlternatives, criteria, options, collect);
+
+  // MER-02: Normalize Decision Matrix
+  const normalizedDense = calculateNormalizedMatrixDense(
+    toDenseMatrix(decisionMatrix),
+    criteria,
+    1e-10,
+    report,
+    normalization
+  );
+  const normalizedMatrix = fromDenseMatrix(normalizedDense);
+  validateNormalizedMatrix(normalizedMatrix, allowMissing);
+
+  // MER-03: Calculate Overall Performance
+  const logSums = calculateRowLogSums(normalizedDense, 1e-10, report);
+  const performancesDense = calculateOverallPerformanceDense(logSums, report);
+  const overallPerformances = Array.from(performancesDense);
+  validateOverallPerformance(overallPerformances, report);
+
+  // MER-04: Calculate Removal Performance
+  const removalDense = calculateRemovalPerformanceDense(logSums, report);
+  const removalPerformances = fromDenseMatrix(removalDense);
+  validateRemovalPerformance(removalPerformances, report);
+
+  // MER-05: Calculate Absolute Deviations
+  const absoluteDeviations = Array.from(
+    calculateAbsoluteDeviationsDense(performancesDense, removalDense, report)
+  );
+  validateAbsoluteDeviations(absoluteDeviations);
+
+  // MER-06: Calculate Final Weights
+  const unconstrainedWeights = calculateFinalWeights(
+    absoluteDeviations,
+    report
+  );
+  validateFinalWeights(unconstrainedWeights);
+
+  // MER-06: Closest weights within the weight constraints (optional)
+  const weightConstraints = applyWeightConstraints(
+    unconstrainedWeights,
+    options.weightConstraints,
+    criteria,
+    report
+  );
+  const weights = weightConstraints?.weights ?? unconstrainedWeights;
+
+  const weightsById: Record<string, number> = {};
+  criteria.forEach((c, j) => {
+    weightsById[c.id] = weights[j];
+  });
+
+  return {
+    alternatives,
+    criteria,
+    decisionMatrix,
+    transformations,
+    missingCells,
+    normalization,
+    normalizedMatrix,
+    overallPerformances,
+    removalPerformances,
+    absoluteDeviations,
+    weights,
+    weightsById,
+    weightConstraints,
+    warnings,
+  };
 }
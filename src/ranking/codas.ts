@@ -0,0 +1,102 @@
+/**
+ * CODAS (COmbinative Distance-based ASsessment) ranking of alternatives
+ * using MEREC weights
+ */
+
+import { CodasOptions, CodasResult, CriteriaSpec, MatrixValue } from "../types";
+import {
+  normalizeLinear,
+  rankScores,
+  resolveRankingInput,
+  resolveUnitIntervalOption,
+} from "./input";
+
+/**
+ * Rank alternatives with CODAS, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options, weights and threshold τ)
+ * @returns Distances from the negative-ideal solution, assessment scores and ranks
+ */
+export function calculateCodasRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: CodasOptions = {}
+): CodasResult {
+  const threshold = resolveUnitIntervalOption(
+    options.threshold,
+    0.02,
+    "Ambang batas CODAS"
+  );
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+  const n = weights.length; // jumlah kriteria
+
+  // Normalisasi linier lalu pembobotan: r_ij = w_j * n_ij
+  const normalizedMatrix = normalizeLinear(x, types);
+  const weightedMatrix = normalizedMatrix.map((row) =>
+    row.map((value, j) => weights[j] * value)
+  );
+
+  // Solusi ideal negatif ns_j = min_i r_ij
+  const negativeIdealSolution: number[] = [];
+  for (let j = 0; j < n; j++) {
+    let min = Infinity;
+    for (let i = 0; i < m; i++) {
+      min = Math.min(min, weightedMatrix[i][j]);
+    }
+    negativeIdealSolution.push(min);
+  }
+
+  // Jarak Euclidean E_i dan taxicab T_i ke solusi ideal negatif
+  const euclideanDistances: number[] = [];
+  const taxicabDistances: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    let squared = 0;
+    let absolute = 0;
+    for (let j = 0; j < n; j++) {
+      const diff = weightedMatrix[i][j] - negativeIdealSolution[j];
+      squared += diff ** 2;
+      absolute += Math.abs(diff);
+    }
+    euclideanDistances.push(Math.sqrt(squared));
+    taxicabDistances.push(absolute);
+  }
+
+  // h_ik = (E_i - E_k) + ψ(E_i - E_k)(T_i - T_k), ψ(x) = 1 jika |x| >= τ, selain itu 0
+  const relativeAssessmentMatrix = euclideanDistances.map((E_i, i) =>
+    euclideanDistances.map((E_k, k) => {
+      const diff = E_i - E_k;
+      const psi = Math.abs(diff) >= threshold ? 1 : 0;
+      return diff + psi * (taxicabDistances[i] - taxicabDistances[k]);
+    })
+  );
+
+  // H_i = Σ_k h_ik
+  const scores = relativeAssessmentMatrix.map((row) =>
+    row.reduce((sum, h) => sum + h, 0)
+  );
+
+  return {
+    alternatives,
+    weights,
+    normalizedMatrix,
+    weightedMatrix,
+    negativeIdealSolution,
+    euclideanDistances,
+    taxicabDistances,
+    threshold,
+    relativeAssessmentMatrix,
+    scores,
+    ranks: rankScores(scores),
+    warnings,
+  };
+}
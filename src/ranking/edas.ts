@@ -0,0 +1,95 @@
+/**
+ * EDAS (Evaluation based on Distance from Average Solution) ranking of
+ * alternatives using MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  EdasResult,
+  MatrixValue,
+  RankingOptions,
+} from "../types";
+import { rankScores, resolveRankingInput } from "./input";
+
+/**
+ * Rank alternatives with EDAS, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options plus caller-provided weights)
+ * @returns Distances from the average solution, appraisal scores and ranks
+ */
+export function calculateEdasRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: RankingOptions = {}
+): EdasResult {
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+
+  // Solusi rata-rata AV_j
+  const averageSolution = weights.map(
+    (_, j) => x.reduce((sum, row) => sum + row[j], 0) / m
+  );
+
+  // PDA_ij dan NDA_ij: jarak positif dan negatif dari rata-rata, relatif terhadap AV_j
+  const positiveDistances = x.map((row) =>
+    row.map((value, j) => {
+      const av = averageSolution[j];
+      const gain = types[j] === "benefit" ? value - av : av - value;
+      return av !== 0 ? Math.max(0, gain) / av : 0;
+    })
+  );
+  const negativeDistances = x.map((row) =>
+    row.map((value, j) => {
+      const av = averageSolution[j];
+      const loss = types[j] === "benefit" ? av - value : value - av;
+      return av !== 0 ? Math.max(0, loss) / av : 0;
+    })
+  );
+
+  // SP_i = Σ_j w_j PDA_ij, SN_i = Σ_j w_j NDA_ij
+  const positiveScores = positiveDistances.map((row) =>
+    row.reduce((sum, pda, j) => sum + weights[j] * pda, 0)
+  );
+  const negativeScores = negativeDistances.map((row) =>
+    row.reduce((sum, nda, j) => sum + weights[j] * nda, 0)
+  );
+
+  // NSP_i = SP_i / max SP, NSN_i = 1 - SN_i / max SN
+  const maxPositive = positiveScores.reduce((a, b) => Math.max(a, b));
+  const maxNegative = negativeScores.reduce((a, b) => Math.max(a, b));
+
+  const normalizedPositiveScores = positiveScores.map((sp) =>
+    maxPositive > 0 ? sp / maxPositive : 0
+  );
+  const normalizedNegativeScores = negativeScores.map((sn) =>
+    maxNegative > 0 ? 1 - sn / maxNegative : 1
+  );
+
+  // AS_i = (NSP_i + NSN_i) / 2
+  const scores = normalizedPositiveScores.map(
+    (nsp, i) => (nsp + normalizedNegativeScores[i]) / 2
+  );
+
+  return {
+    alternatives,
+    weights,
+    averageSolution,
+    positiveDistances,
+    negativeDistances,
+    positiveScores,
+    negativeScores,
+    normalizedPositiveScores,
+    normalizedNegativeScores,
+    scores,
+    ranks: rankScores(scores),
+    warnings,
+  };
+}
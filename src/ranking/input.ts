@@ -0,0 +1,263 @@
+/**
+ * Shared input handling and normalization for ranking methods built on top of MEREC weights
+ */
+
+import {
+  Alternative,
+  Criteria,
+  CriteriaSpec,
+  MatrixValue,
+  MerecDiagnostic,
+  NonPositiveStrategy,
+  RankingOptions,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { calculateMerecDetailed } from "../merec";
+import { validateFinalWeights } from "../calculation/mer06-bobotAkhir";
+import { resolveWeightingInput } from "../weighting/input";
+
+/**
+ * Decision matrix and weights ready to be ranked
+ */
+export interface RankingInput {
+  /** Alternatives in row order (without dropped alternatives) */
+  alternatives: Alternative[];
+  /** Criteria in column order */
+  criteria: Criteria[];
+  /** Decision matrix after MER-01 with order-preserving conversion of non-positive values; target columns hold the cost 1 + d_ij / max_k d_kj of the distance to the target */
+  matrix: number[][];
+  /** Direction of every column (target columns become "cost" distances) */
+  types: ("benefit" | "cost")[];
+  /** Criteria weights [0-1] that sum to 1.0 */
+  weights: number[];
+  /** Diagnostics emitted while preparing the decision matrix and weights */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Prepare the decision matrix and weights for a ranking method. Uses MEREC weights
+ * of the same matrix unless `options.weights` is given.
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Ranking options (MEREC options plus optional weights)
+ * @returns Ranking input
+ */
+export function resolveRankingInput(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: RankingOptions = {}
+): RankingInput {
+  // Sel hilang tidak dapat diperingkat, sehingga kebijakan "skip" ditolak
+  if (options.missingValuePolicy === "skip") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Kebijakan nilai hilang 'skip' tidak dapat digunakan untuk perankingan"
+    );
+  }
+
+  if (options.weights) {
+    const {
+      alternatives,
+      criteria,
+      matrix: x,
+      types,
+      warnings,
+    } = resolveWeightingInput(
+      matrix,
+      criteriaTypes,
+      toRankingMatrixOptions(options)
+    );
+
+    if (options.weights.length !== criteria.length) {
+      throw new MerecInputError(
+        "COLUMN_COUNT_MISMATCH",
+        `Jumlah bobot (${options.weights.length}) harus sama dengan jumlah kriteria (${criteria.length})`,
+        { expected: criteria.length, actual: options.weights.length }
+      );
+    }
+    validateFinalWeights(options.weights);
+
+    return {
+      alternatives,
+      criteria,
+      matrix: scaleTargetDistances(x, criteria),
+      types,
+      weights: [...options.weights],
+      warnings,
+    };
+  }
+
+  const result = calculateMerecDetailed(matrix, criteriaTypes, options);
+
+  // Diagnostik MER-01 sudah dilaporkan oleh perhitungan bobot MEREC
+  const { matrix: x, types } = resolveWeightingInput(matrix, criteriaTypes, {
+    ...toRankingMatrixOptions(options),
+    logger: undefined,
+  });
+
+  return {
+    alternatives: result.alternatives,
+    criteria: result.criteria,
+    matrix: scaleTargetDistances(x, result.criteria),
+    types,
+    weights: result.weights,
+    warnings: result.warnings,
+  };
+}
+
+/**
+ * Turn the target distances d_ij into positive costs 1 + d_ij / max_k d_kj, so that
+ * ratio and product based methods keep the difference between the distances
+ * @param matrix - Directed matrix (m x n), target columns hold d_ij
+ * @param criteria - Criteria in column order
+ * @returns Matrix with strictly positive target columns in [1, 2]
+ */
+function scaleTargetDistances(
+  matrix: number[][],
+  criteria: Criteria[]
+): number[][] {
+  const maxDistances = criteria.map((c, j) =>
+    c.type === "target"
+      ? matrix.reduce((max, row) => Math.max(max, row[j]), 0)
+      : 0
+  );
+
+  return matrix.map((row) =>
+    row.map((value, j) => {
+      if (criteria[j].type !== "target") {
+        return value;
+      }
+      return maxDistances[j] > 0 ? 1 + value / maxDistances[j] : 1;
+    })
+  );
+}
+
+/**
+ * MEREC options for the matrix that is ranked. The "legacy" |x| + 1 conversion
+ * reverses the order of negative values, so it is replaced by "shift".
+ * @param options - Ranking options
+ * @returns Options with an order-preserving non-positive value strategy
+ */
+function toRankingMatrixOptions(options: RankingOptions): RankingOptions {
+  const preserveOrder = (
+    strategy: NonPositiveStrategy | undefined
+  ): NonPositiveStrategy =>
+    strategy === undefined || strategy === "legacy" ? "shift" : strategy;
+
+  const byCriterion: Record<string, NonPositiveStrategy> = {};
+  for (const [id, strategy] of Object.entries(
+    options.nonPositiveStrategyByCriterion ?? {}
+  )) {
+    byCriterion[id] = preserveOrder(strategy);
+  }
+
+  return {
+    ...options,
+    nonPositiveStrategy: preserveOrder(options.nonPositiveStrategy),
+    nonPositiveStrategyByCriterion: byCriterion,
+    // Skema normalisasi hanya berlaku untuk bobot MEREC
+    normalization: undefined,
+  };
+}
+
+/**
+ * Vector normalization r_ij = x_ij / sqrt(Σ_i x_ij²) (0 for an all-zero column)
+ * @param matrix - Ranking matrix (m x n)
+ * @returns Normalized matrix (m x n)
+ */
+export function normalizeVector(matrix: number[][]): number[][] {
+  const n = matrix[0]?.length || 0;
+  const norms: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    norms.push(Math.sqrt(matrix.reduce((sum, row) => sum + row[j] ** 2, 0)));
+  }
+
+  return matrix.map((row) =>
+    row.map((value, j) => (norms[j] > 0 ? value / norms[j] : 0))
+  );
+}
+
+/**
+ * Linear normalization x_ij / max_i x_ij (benefit) and min_i x_ij / x_ij (cost)
+ * @param matrix - Ranking matrix (m x n)
+ * @param types - Direction of every column
+ * @returns Normalized matrix (m x n) with values in [0, 1], 1 = best
+ */
+export function normalizeLinear(
+  matrix: number[][],
+  types: ("benefit" | "cost")[]
+): number[][] {
+  const minValues = types.map(() => Infinity);
+  const maxValues = types.map(() => -Infinity);
+
+  for (const row of matrix) {
+    row.forEach((value, j) => {
+      minValues[j] = Math.min(minValues[j], value);
+      maxValues[j] = Math.max(maxValues[j], value);
+    });
+  }
+
+  // Nilai matriks peringkat selalu positif; nilai 0 hanya mungkin pada kolom konstan 0
+  return matrix.map((row) =>
+    row.map((value, j) => {
+      if (types[j] === "benefit") {
+        return maxValues[j] > 0 ? value / maxValues[j] : 1;
+      }
+      return value > 0 ? minValues[j] / value : 1;
+    })
+  );
+}
+
+/**
+ * Resolve a numeric option that must lie within [0, 1]
+ * @param value - Option value (undefined = default)
+ * @param defaultValue - Default value
+ * @param label - Option label used in the error message
+ * @returns Option value within [0, 1]
+ */
+export function resolveUnitIntervalOption(
+  value: number | undefined,
+  defaultValue: number,
+  label: string
+): number {
+  const resolved = value ?? defaultValue;
+
+  if (typeof resolved !== "number" || !(resolved >= 0 && resolved <= 1)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `${label} harus berada pada rentang [0, 1]: ${resolved}`,
+      { value: resolved }
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Rank scores with competition ranking (1, 2, 2, 4); tied scores share a rank
+ * @param scores - Score of each alternative
+ * @param higherIsBetter - Whether a higher score ranks first (default: true)
+ * @returns Rank of each alternative (1 = best)
+ */
+export function rankScores(
+  scores: number[],
+  higherIsBetter: boolean = true
+): number[] {
+  const order = scores
+    .map((_, i) => i)
+    .sort((a, b) =>
+      higherIsBetter ? scores[b] - scores[a] : scores[a] - scores[b]
+    );
+
+  const ranks: number[] = new Array(scores.length);
+  order.forEach((i, position) => {
+    const previous = order[position - 1];
+    ranks[i] =
+      position > 0 && scores[previous] === scores[i]
+        ? ranks[previous]
+        : position + 1;
+  });
+
+  return ranks;
+}
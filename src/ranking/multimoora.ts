@@ -0,0 +1,130 @@
+/**
+ * MULTIMOORA (Multi-Objective Optimization on the basis of Ratio Analysis plus
+ * the full MULTIplicative form) ranking of alternatives using MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  MatrixValue,
+  MultimooraResult,
+  RankingOptions,
+} from "../types";
+import { normalizeVector, rankScores, resolveRankingInput } from "./input";
+
+/**
+ * Rank alternatives with MULTIMOORA, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options plus caller-provided weights)
+ * @returns Scores and ranks of the three systems, aggregated with dominance theory
+ */
+export function calculateMultimooraRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: RankingOptions = {}
+): MultimooraResult {
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+  const n = weights.length; // jumlah kriteria
+
+  // Normalisasi vektor: r_ij = x_ij / sqrt(Σ_i x_ij²)
+  const normalizedMatrix = normalizeVector(x);
+
+  // Titik referensi r*_j: nilai terbobot terbaik setiap kriteria
+  const referencePoint: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    let best = types[j] === "benefit" ? -Infinity : Infinity;
+    for (let i = 0; i < m; i++) {
+      const value = weights[j] * normalizedMatrix[i][j];
+      best =
+        types[j] === "benefit" ? Math.max(best, value) : Math.min(best, value);
+    }
+    referencePoint.push(best);
+  }
+
+  const ratioSystem: number[] = [];
+  const referencePointDistances: number[] = [];
+  const fullMultiplicative: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    let ratio = 0;
+    let distance = 0;
+    let benefitProduct = 1;
+    let costProduct = 1;
+
+    for (let j = 0; j < n; j++) {
+      const r_ij = normalizedMatrix[i][j];
+      const weighted = weights[j] * r_ij;
+
+      // Sistem rasio: y_i = Σ_benefit w_j r_ij - Σ_cost w_j r_ij
+      ratio += types[j] === "benefit" ? weighted : -weighted;
+
+      // Titik referensi: max_j |r*_j - w_j r_ij| (metrik Tchebycheff)
+      distance = Math.max(distance, Math.abs(referencePoint[j] - weighted));
+
+      // Bentuk multiplikatif penuh: U_i = Π_benefit r_ij^w_j / Π_cost r_ij^w_j
+      if (types[j] === "benefit") {
+        benefitProduct *= r_ij ** weights[j];
+      } else {
+        costProduct *= r_ij ** weights[j];
+      }
+    }
+
+    ratioSystem.push(ratio);
+    referencePointDistances.push(distance);
+    fullMultiplicative.push(benefitProduct / costProduct);
+  }
+
+  const ranksByRatioSystem = rankScores(ratioSystem);
+  const ranksByReferencePoint = rankScores(referencePointDistances, false);
+  const ranksByFullMultiplicative = rankScores(fullMultiplicative);
+  const systemRanks = [
+    ranksByRatioSystem,
+    ranksByReferencePoint,
+    ranksByFullMultiplicative,
+  ];
+
+  // Agregasi dominasi: a mendominasi b jika a lebih baik pada minimal dua dari tiga sistem
+  const dominanceScores = alternatives.map((_, a) => {
+    let dominated = 0;
+    for (let b = 0; b < m; b++) {
+      const wins = systemRanks.filter((ranks) => ranks[a] < ranks[b]).length;
+      if (wins >= 2) {
+        dominated++;
+      }
+    }
+    return dominated;
+  });
+
+  // Peringkat akhir: jumlah dominasi, lalu jumlah peringkat ketiga sistem sebagai pemecah seri
+  const rankSums = alternatives.map((_, i) =>
+    systemRanks.reduce((sum, ranks) => sum + ranks[i], 0)
+  );
+  const ranks = rankScores(
+    dominanceScores.map((score, i) => score * (3 * m + 1) - rankSums[i])
+  );
+
+  return {
+    alternatives,
+    weights,
+    normalizedMatrix,
+    ratioSystem,
+    referencePoint,
+    referencePointDistances,
+    fullMultiplicative,
+    ranksByRatioSystem,
+    ranksByReferencePoint,
+    ranksByFullMultiplicative,
+    dominanceScores,
+    ranks,
+    warnings,
+  };
+}
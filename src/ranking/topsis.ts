@@ -0,0 +1,98 @@
+/**
+ * TOPSIS (Technique for Order of Preference by Similarity to Ideal Solution)
+ * ranking of alternatives using MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  MatrixValue,
+  RankingOptions,
+  TopsisResult,
+} from "../types";
+import { normalizeVector, rankScores, resolveRankingInput } from "./input";
+
+/**
+ * Rank alternatives with TOPSIS, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options plus caller-provided weights)
+ * @returns Closeness coefficients, distances to the ideal/anti-ideal solutions and ranks
+ */
+export function calculateTopsisRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: RankingOptions = {}
+): TopsisResult {
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+  const n = weights.length; // jumlah kriteria
+
+  // Normalisasi vektor: r_ij = x_ij / sqrt(Σ_i x_ij²)
+  const normalizedMatrix = normalizeVector(x);
+
+  // Matriks ternormalisasi terbobot: v_ij = w_j * r_ij
+  const weightedMatrix = normalizedMatrix.map((row) =>
+    row.map((value, j) => weights[j] * value)
+  );
+
+  // Solusi ideal A+ dan anti-ideal A-
+  const idealSolution: number[] = [];
+  const antiIdealSolution: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < m; i++) {
+      min = Math.min(min, weightedMatrix[i][j]);
+      max = Math.max(max, weightedMatrix[i][j]);
+    }
+
+    idealSolution.push(types[j] === "benefit" ? max : min);
+    antiIdealSolution.push(types[j] === "benefit" ? min : max);
+  }
+
+  // Jarak Euclidean ke A+ dan A-, lalu koefisien kedekatan C_i
+  const distancesToIdeal: number[] = [];
+  const distancesToAntiIdeal: number[] = [];
+  const closeness: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    let sumIdeal = 0;
+    let sumAntiIdeal = 0;
+
+    for (let j = 0; j < n; j++) {
+      sumIdeal += (weightedMatrix[i][j] - idealSolution[j]) ** 2;
+      sumAntiIdeal += (weightedMatrix[i][j] - antiIdealSolution[j]) ** 2;
+    }
+
+    const dPlus = Math.sqrt(sumIdeal);
+    const dMinus = Math.sqrt(sumAntiIdeal);
+
+    distancesToIdeal.push(dPlus);
+    distancesToAntiIdeal.push(dMinus);
+
+    // Jika A+ = A- (semua alternatif identik), semua alternatif setara
+    closeness.push(dPlus + dMinus > 0 ? dMinus / (dPlus + dMinus) : 0.5);
+  }
+
+  return {
+    alternatives,
+    weights,
+    normalizedMatrix,
+    weightedMatrix,
+    idealSolution,
+    antiIdealSolution,
+    distancesToIdeal,
+    distancesToAntiIdeal,
+    closeness,
+    ranks: rankScores(closeness),
+    warnings,
+  };
+}
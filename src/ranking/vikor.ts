@@ -0,0 +1,140 @@
+/**
+ * VIKOR (VIseKriterijumska Optimizacija I Kompromisno Resenje) compromise
+ * ranking of alternatives using MEREC weights
+ */
+
+import { CriteriaSpec, MatrixValue, VikorOptions, VikorResult } from "../types";
+import {
+  rankScores,
+  resolveRankingInput,
+  resolveUnitIntervalOption,
+} from "./input";
+
+/**
+ * Rank alternatives with VIKOR, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options, weights and strategy weight v)
+ * @returns S, R and Q indices, acceptance conditions and the compromise set
+ */
+export function calculateVikorRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: VikorOptions = {}
+): VikorResult {
+  const v = resolveUnitIntervalOption(
+    options.strategyWeight,
+    0.5,
+    "Bobot strategi VIKOR"
+  );
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+  const n = weights.length; // jumlah kriteria
+
+  // Nilai terbaik f*_j dan terburuk f-_j setiap kriteria
+  const bestValues: number[] = [];
+  const worstValues: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < m; i++) {
+      min = Math.min(min, x[i][j]);
+      max = Math.max(max, x[i][j]);
+    }
+
+    bestValues.push(types[j] === "benefit" ? max : min);
+    worstValues.push(types[j] === "benefit" ? min : max);
+  }
+
+  // S_i = Σ_j w_j (f*_j - f_ij) / (f*_j - f-_j), R_i = max_j dari suku yang sama
+  const utility: number[] = [];
+  const regret: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    let S_i = 0;
+    let R_i = 0;
+
+    for (let j = 0; j < n; j++) {
+      const range = bestValues[j] - worstValues[j];
+      const term =
+        range !== 0 ? (weights[j] * (bestValues[j] - x[i][j])) / range : 0;
+
+      S_i += term;
+      R_i = Math.max(R_i, term);
+    }
+
+    utility.push(S_i);
+    regret.push(R_i);
+  }
+
+  // Q_i = v (S_i - S*) / (S- - S*) + (1 - v) (R_i - R*) / (R- - R*)
+  const sBest = utility.reduce((a, b) => Math.min(a, b));
+  const sWorst = utility.reduce((a, b) => Math.max(a, b));
+  const rBest = regret.reduce((a, b) => Math.min(a, b));
+  const rWorst = regret.reduce((a, b) => Math.max(a, b));
+
+  const compromiseIndex = utility.map((S_i, i) => {
+    const sTerm = sWorst > sBest ? (S_i - sBest) / (sWorst - sBest) : 0;
+    const rTerm = rWorst > rBest ? (regret[i] - rBest) / (rWorst - rBest) : 0;
+    return v * sTerm + (1 - v) * rTerm;
+  });
+
+  const ranks = rankScores(compromiseIndex, false);
+  const ranksByUtility = rankScores(utility, false);
+  const ranksByRegret = rankScores(regret, false);
+
+  // Urutan alternatif berdasarkan Q (a', a'', ...)
+  const order = compromiseIndex
+    .map((_, i) => i)
+    .sort((a, b) => compromiseIndex[a] - compromiseIndex[b]);
+  const first = order[0];
+
+  // C1: Q(a'') - Q(a') >= DQ, dengan DQ = 1 / (m - 1)
+  const dq = m > 1 ? 1 / (m - 1) : 0;
+  const acceptableAdvantage =
+    m === 1 || compromiseIndex[order[1]] - compromiseIndex[first] >= dq;
+
+  // C2: a' juga terbaik berdasarkan S atau R
+  const acceptableStability =
+    ranksByUtility[first] === 1 || ranksByRegret[first] === 1;
+
+  // Himpunan solusi kompromi
+  let compromiseSet: number[];
+
+  if (!acceptableAdvantage) {
+    // a', a'', ..., a^(M) dengan Q(a^(M)) - Q(a') < DQ
+    compromiseSet = order.filter(
+      (i) => i === first || compromiseIndex[i] - compromiseIndex[first] < dq
+    );
+  } else if (!acceptableStability) {
+    compromiseSet = [first, order[1]];
+  } else {
+    compromiseSet = [first];
+  }
+
+  return {
+    alternatives,
+    weights,
+    bestValues,
+    worstValues,
+    utility,
+    regret,
+    compromiseIndex,
+    strategyWeight: v,
+    ranks,
+    ranksByUtility,
+    ranksByRegret,
+    acceptableAdvantage,
+    acceptableStability,
+    compromiseSet,
+    warnings,
+  };
+}
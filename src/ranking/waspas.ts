@@ -0,0 +1,80 @@
+/**
+ * WASPAS (Weighted Aggregated Sum Product ASsessment) ranking of alternatives
+ * using MEREC weights
+ */
+
+import {
+  CriteriaSpec,
+  MatrixValue,
+  WaspasOptions,
+  WaspasResult,
+} from "../types";
+import {
+  normalizeLinear,
+  rankScores,
+  resolveRankingInput,
+  resolveUnitIntervalOption,
+} from "./input";
+
+/**
+ * Rank alternatives with WASPAS, weighting criteria with MEREC by default
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional ranking options (MEREC options, weights and λ)
+ * @returns Weighted sum, weighted product and joint criterion scores with ranks
+ */
+export function calculateWaspasRanking(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: WaspasOptions = {}
+): WaspasResult {
+  const lambda = resolveUnitIntervalOption(
+    options.lambda,
+    0.5,
+    "Lambda WASPAS"
+  );
+  const {
+    alternatives,
+    matrix: x,
+    types,
+    weights,
+    warnings,
+  } = resolveRankingInput(matrix, criteriaTypes, options);
+
+  const m = x.length; // jumlah alternatif
+  const n = weights.length; // jumlah kriteria
+
+  // Normalisasi linier: x_ij / max_i x_ij (benefit), min_i x_ij / x_ij (cost)
+  const normalizedMatrix = normalizeLinear(x, types);
+
+  // Q1_i = Σ_j w_j r_ij, Q2_i = Π_j r_ij^w_j, Q_i = λ Q1_i + (1 - λ) Q2_i
+  const weightedSum: number[] = [];
+  const weightedProduct: number[] = [];
+  const scores: number[] = [];
+
+  for (let i = 0; i < m; i++) {
+    let sum = 0;
+    let product = 1;
+
+    for (let j = 0; j < n; j++) {
+      sum += weights[j] * normalizedMatrix[i][j];
+      product *= normalizedMatrix[i][j] ** weights[j];
+    }
+
+    weightedSum.push(sum);
+    weightedProduct.push(product);
+    scores.push(lambda * sum + (1 - lambda) * product);
+  }
+
+  return {
+    alternatives,
+    weights,
+    normalizedMatrix,
+    weightedSum,
+    weightedProduct,
+    lambda,
+    scores,
+    ranks: rankScores(scores),
+    warnings,
+  };
+}
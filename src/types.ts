@@ -3,30 +3,1031 @@
  */
 
 /**
- * Criteria type - benefit (higher is better) or cost (lower is better)
+ * Criteria type - benefit (higher is better), cost (lower is better) or
+ * target (closest to a target value is best)
  */
-export type CriteriaType = "benefit" | "cost";
+export type CriteriaType = "benefit" | "cost" | "target";
 
 /**
- * Alternative data structure (internal use)
+ * Target (nominal-is-best) criterion specification for matrix input
+ */
+export interface TargetCriteriaSpec {
+  type: "target";
+  /** Ideal value of the criterion */
+  target: number;
+  /** Optional [lower, upper] range in which every value is considered ideal */
+  acceptableRange?: [number, number];
+}
+
+/**
+ * Criterion specification for matrix input - a plain type or a target specification
+ */
+export type CriteriaSpec = CriteriaType | TargetCriteriaSpec;
+
+/**
+ * Decision matrix cell value - null (or NaN) marks a missing value
+ */
+export type MatrixValue = number | null;
+
+/**
+ * Alternative data structure
  */
 export interface Alternative {
   /** Unique identifier for the alternative */
   id: string;
   /** Human-readable name */
   name: string;
-  /** Criteria values for this alternative */
-  values: number[];
+  /** Criteria values for this alternative, in the same order as the criteria (null or NaN = missing) */
+  values: MatrixValue[];
 }
 
 /**
- * Criteria definition (internal use)
+ * Criteria definition
  */
 export interface Criteria {
   /** Unique identifier for the criteria */
   id: string;
   /** Human-readable name */
   name: string;
-  /** Type of criteria (benefit or cost) */
+  /** Type of criteria (benefit, cost or target) */
   type: CriteriaType;
+  /** Ideal value (required when type is "target") */
+  target?: number;
+  /** Optional [lower, upper] range considered ideal (type "target" only) */
+  acceptableRange?: [number, number];
+}
+
+/**
+ * Strategy for non-positive values (x_ij <= 0) in MER-01
+ * - "legacy" - replace each non-positive cell with |x| + 1
+ * - "shift" - add |min| + 1 to every cell of the column (keeps order and distances)
+ * - "minmax" - rescale the column linearly into [1, 2] (keeps order)
+ * - "reject" - throw an error
+ */
+export type NonPositiveStrategy = "legacy" | "shift" | "minmax" | "reject";
+
+/**
+ * Policy for missing values (null or NaN) in MER-01
+ * - "reject" - throw an error
+ * - "drop-alternative" - remove every alternative with a missing value
+ * - "mean" - impute the column mean
+ * - "median" - impute the column median
+ * - "worst" - impute the column minimum (benefit) or maximum (cost)
+ * - "skip" - leave the cell out of the MER-03/MER-04 averages
+ */
+export type MissingValuePolicy =
+  "reject" | "drop-alternative" | "mean" | "median" | "worst" | "skip";
+
+/**
+ * Missing cell found in the input and how it was handled
+ */
+export interface MissingCell {
+  /** Row index in the input (before dropping alternatives) */
+  alternativeIndex: number;
+  /** Alternative id */
+  alternativeId: string;
+  /** Column index of the criterion */
+  criterionIndex: number;
+  /** Criterion id */
+  criterionId: string;
+  /** Policy that was applied */
+  policy: MissingValuePolicy;
+  /** Imputed value ("mean", "median" and "worst" only) */
+  imputedValue?: number;
+}
+
+/**
+ * Normalization scheme for MER-02 (every scheme yields values in (0, 1], smaller is better).
+ * Apart from "merec", the standard score r of the scheme is computed from the decision
+ * matrix values x and mapped to nx = 1 - (r - min r).
+ * - "merec" - min/x for benefit, x/max for cost (original MEREC)
+ * - "vector" - r = x / ‖x‖ for benefit, 1 - x / ‖x‖ for cost
+ * - "sum-linear" - r = x / Σx for benefit, (1/x) / Σ(1/x) for cost
+ * - "max-linear" - r = x / max for benefit, 1 - x / max for cost
+ * - "logarithmic" - r = ln x / ln Πx for benefit, (1 - ln x / ln Πx) / (m - 1) for cost
+ *   (columns with values <= 1 are first shifted so that their minimum is 2)
+ */
+export type NormalizationScheme =
+  "merec" | "vector" | "sum-linear" | "max-linear" | "logarithmic";
+
+/**
+ * Transformation applied to a decision matrix column in MER-01
+ */
+export interface ColumnTransformation {
+  /** Column index of the criterion */
+  criterionIndex: number;
+  /** Criterion id */
+  criterionId: string;
+  /** Strategy that was applied */
+  strategy: NonPositiveStrategy;
+  /** Row indices whose value was changed */
+  affectedRows: number[];
+  /** Linear transformation x' = scale * x + offset ("shift" and "minmax" only) */
+  scale?: number;
+  /** Linear transformation x' = scale * x + offset ("shift" and "minmax" only) */
+  offset?: number;
+}
+
+/**
+ * Detailed MEREC result exposing every intermediate step (MER-01..MER-06)
+ */
+export interface MerecResult {
+  /** Alternatives in row order (labels for every matrix row, without dropped alternatives) */
+  alternatives: Alternative[];
+  /** Criteria in column order (labels for every matrix column) */
+  criteria: Criteria[];
+  /** MER-01: Decision matrix X (m x n) after positivity conversion */
+  decisionMatrix: number[][];
+  /** MER-01: Transformations applied to columns with non-positive values */
+  transformations: ColumnTransformation[];
+  /** MER-01: Missing cells and how each was handled */
+  missingCells: MissingCell[];
+  /** MER-02: Normalization scheme used */
+  normalization: NormalizationScheme;
+  /** MER-02: Normalized matrix N (m x n) */
+  normalizedMatrix: number[][];
+  /** MER-03: Overall performance S_i of each alternative */
+  overallPerformances: number[];
+  /** MER-04: Performance S'_ij of alternative i with criterion j removed */
+  removalPerformances: number[][];
+  /** MER-05: Sum of absolute deviations E_j of each criterion */
+  absoluteDeviations: number[];
+  /** MER-06: Final criteria weights w_j [0-1] that sum to 1.0 (after the weight constraints, if any) */
+  weights: number[];
+  /** MER-06: Final criteria weights keyed by criterion id */
+  weightsById: Record<string, number>;
+  /** MER-06: Adjustment of the weights to the weight constraints (only with `weightConstraints`) */
+  weightConstraints?: WeightConstraintReport;
+  /** Diagnostics emitted by every step, in order */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Options for ranking methods built on top of MEREC weights
+ */
+export interface RankingOptions extends MerecOptions {
+  /** Criteria weights [0-1] that sum to 1.0 (default: MEREC weights of the same matrix) */
+  weights?: number[];
+}
+
+/**
+ * Result shared by every ranking method
+ */
+export interface RankingResult {
+  /** Alternatives in row order (labels for every ranked row, without dropped alternatives) */
+  alternatives: Alternative[];
+  /** Criteria weights used for the ranking */
+  weights: number[];
+  /** Rank of each alternative (1 = best, tied alternatives share a rank) */
+  ranks: number[];
+  /** Diagnostics emitted while preparing the decision matrix and weights */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * TOPSIS ranking result
+ */
+export interface TopsisResult extends RankingResult {
+  /** Vector-normalized decision matrix r_ij (m x n) */
+  normalizedMatrix: number[][];
+  /** Weighted normalized decision matrix v_ij = w_j * r_ij (m x n) */
+  weightedMatrix: number[][];
+  /** Ideal solution A+ (best weighted value of each criterion) */
+  idealSolution: number[];
+  /** Anti-ideal solution A- (worst weighted value of each criterion) */
+  antiIdealSolution: number[];
+  /** Euclidean distance D+_i of each alternative to the ideal solution */
+  distancesToIdeal: number[];
+  /** Euclidean distance D-_i of each alternative to the anti-ideal solution */
+  distancesToAntiIdeal: number[];
+  /** Closeness coefficient C_i = D-_i / (D+_i + D-_i) of each alternative (higher is better) */
+  closeness: number[];
+}
+
+/**
+ * Options for the VIKOR ranking
+ */
+export interface VikorOptions extends RankingOptions {
+  /** Weight v of the "majority of criteria" strategy in Q, within [0, 1] (default: 0.5) */
+  strategyWeight?: number;
+}
+
+/**
+ * VIKOR ranking result
+ */
+export interface VikorResult extends RankingResult {
+  /** Best value f*_j of each criterion */
+  bestValues: number[];
+  /** Worst value f-_j of each criterion */
+  worstValues: number[];
+  /** Group utility S_i of each alternative (lower is better) */
+  utility: number[];
+  /** Individual regret R_i of each alternative (lower is better) */
+  regret: number[];
+  /** Compromise index Q_i of each alternative (lower is better, `ranks` follow Q) */
+  compromiseIndex: number[];
+  /** Strategy weight v used in Q */
+  strategyWeight: number;
+  /** Rank of each alternative by S */
+  ranksByUtility: number[];
+  /** Rank of each alternative by R */
+  ranksByRegret: number[];
+  /** C1: Q of the second alternative exceeds Q of the first by at least DQ = 1 / (m - 1) */
+  acceptableAdvantage: boolean;
+  /** C2: the first alternative by Q is also first by S or by R */
+  acceptableStability: boolean;
+  /** Row indices of the compromise solution, ordered by Q */
+  compromiseSet: number[];
+}
+
+/**
+ * Options for the WASPAS ranking
+ */
+export interface WaspasOptions extends RankingOptions {
+  /** Weight λ of the weighted sum model in the joint criterion, within [0, 1] (default: 0.5) */
+  lambda?: number;
+}
+
+/**
+ * WASPAS ranking result
+ */
+export interface WaspasResult extends RankingResult {
+  /** Linearly normalized decision matrix (x/max for benefit, min/x for cost) */
+  normalizedMatrix: number[][];
+  /** Weighted sum model Q1_i = Σ_j w_j r_ij */
+  weightedSum: number[];
+  /** Weighted product model Q2_i = Π_j r_ij^w_j */
+  weightedProduct: number[];
+  /** λ used in the joint criterion */
+  lambda: number;
+  /** Joint criterion Q_i = λ Q1_i + (1 - λ) Q2_i (higher is better) */
+  scores: number[];
+}
+
+/**
+ * MULTIMOORA ranking result
+ */
+export interface MultimooraResult extends RankingResult {
+  /** Vector-normalized decision matrix r_ij = x_ij / sqrt(Σ_i x_ij²) */
+  normalizedMatrix: number[][];
+  /** Ratio system y_i = Σ_benefit w_j r_ij - Σ_cost w_j r_ij (higher is better) */
+  ratioSystem: number[];
+  /** Reference point r*_j (best weighted normalized value of each criterion) */
+  referencePoint: number[];
+  /** Tchebycheff distance max_j |w_j r_ij - r*_j| to the reference point (lower is better) */
+  referencePointDistances: number[];
+  /** Full multiplicative form U_i = Π_benefit r_ij^w_j / Π_cost r_ij^w_j (higher is better) */
+  fullMultiplicative: number[];
+  /** Rank of each alternative by the ratio system */
+  ranksByRatioSystem: number[];
+  /** Rank of each alternative by the reference point */
+  ranksByReferencePoint: number[];
+  /** Rank of each alternative by the full multiplicative form */
+  ranksByFullMultiplicative: number[];
+  /** Number of alternatives each alternative dominates (better in at least two of the three systems) */
+  dominanceScores: number[];
+}
+
+/**
+ * EDAS ranking result
+ */
+export interface EdasResult extends RankingResult {
+  /** Average solution AV_j of each criterion */
+  averageSolution: number[];
+  /** Positive distance from average PDA_ij (m x n) */
+  positiveDistances: number[][];
+  /** Negative distance from average NDA_ij (m x n) */
+  negativeDistances: number[][];
+  /** Weighted sum of positive distances SP_i */
+  positiveScores: number[];
+  /** Weighted sum of negative distances SN_i */
+  negativeScores: number[];
+  /** Normalized positive score NSP_i = SP_i / max_k SP_k */
+  normalizedPositiveScores: number[];
+  /** Normalized negative score NSN_i = 1 - SN_i / max_k SN_k */
+  normalizedNegativeScores: number[];
+  /** Appraisal score AS_i = (NSP_i + NSN_i) / 2 (higher is better) */
+  scores: number[];
+}
+
+/**
+ * Options for the CODAS ranking
+ */
+export interface CodasOptions extends RankingOptions {
+  /** Threshold τ above which the taxicab distance is used to separate alternatives, within [0, 1] (default: 0.02) */
+  threshold?: number;
+}
+
+/**
+ * CODAS ranking result
+ */
+export interface CodasResult extends RankingResult {
+  /** Linearly normalized decision matrix (x/max for benefit, min/x for cost) */
+  normalizedMatrix: number[][];
+  /** Weighted normalized decision matrix r_ij = w_j * n_ij (m x n) */
+  weightedMatrix: number[][];
+  /** Negative-ideal solution ns_j = min_i r_ij */
+  negativeIdealSolution: number[];
+  /** Euclidean distance E_i to the negative-ideal solution */
+  euclideanDistances: number[];
+  /** Taxicab distance T_i to the negative-ideal solution */
+  taxicabDistances: number[];
+  /** Threshold τ used in the relative assessment */
+  threshold: number;
+  /** Relative assessment h_ik = (E_i - E_k) + ψ(E_i - E_k)(T_i - T_k) (m x m) */
+  relativeAssessmentMatrix: number[][];
+  /** Assessment score H_i = Σ_k h_ik (higher is better) */
+  scores: number[];
+}
+
+/**
+ * Options for comparing weighting methods
+ */
+export interface WeightComparisonOptions {
+  /** Criteria labelling the weight vectors (default: C1, C2, ...) */
+  criteria?: Criteria[];
+}
+
+/**
+ * Correlation between the weights of two weighting methods
+ */
+export interface WeightCorrelation {
+  /** First method */
+  methodA: string;
+  /** Second method */
+  methodB: string;
+  /** Spearman's rank correlation ρ of the criterion ranks (NaN when either ranking is fully tied) */
+  spearman: number;
+  /** Kendall's tau-b of the criterion ranks (NaN when either ranking is fully tied) */
+  kendall: number;
+  /** Pearson correlation of the weights (NaN when either vector is constant) */
+  pearson: number;
+}
+
+/**
+ * Criterion in the consensus ordering of several weighting methods
+ */
+export interface ConsensusCriterion {
+  /** Criterion id */
+  id: string;
+  /** Human-readable name */
+  name: string;
+  /** Column index of the criterion */
+  criterionIndex: number;
+  /** Mean rank of the criterion over every method */
+  meanRank: number;
+  /** Mean weight of the criterion over every method */
+  meanWeight: number;
+  /** Consensus rank (1 = most important) */
+  ranking: number;
+}
+
+/**
+ * Comparison report of MEREC weights and other weight vectors
+ */
+export interface WeightComparison {
+  /** Compared methods, "merec" first */
+  methods: string[];
+  /** Criteria in column order */
+  criteria: Criteria[];
+  /** Weights of every method */
+  weights: Record<string, number[]>;
+  /** Rank of every criterion per method (1 = most important, equal weights share their average rank) */
+  ranks: Record<string, number[]>;
+  /** Correlation of every pair of methods */
+  correlations: WeightCorrelation[];
+  /** Rank shift of every criterion per method relative to MEREC (positive = less important) */
+  rankShifts: Record<string, number[]>;
+  /** Criteria ordered by mean rank over every method */
+  consensusRanking: ConsensusCriterion[];
+}
+
+/**
+ * Method deriving AHP priority weights from a pairwise comparison matrix
+ */
+export type AhpPriorityMethod = "eigenvector" | "geometricMean";
+
+/**
+ * Options for AHP priority weights
+ */
+export interface AhpOptions {
+  /** Priority method (default: "eigenvector") */
+  method?: AhpPriorityMethod;
+  /** Largest accepted consistency ratio (default: 0.1, Infinity accepts any judgments) */
+  maxConsistencyRatio?: number;
+}
+
+/**
+ * AHP priority weights with Saaty's consistency check
+ */
+export interface AhpResult {
+  /** Priority weights [0-1] that sum to 1.0 */
+  weights: number[];
+  /** Priority method used */
+  method: AhpPriorityMethod;
+  /** Principal eigenvalue estimate λ_max */
+  lambdaMax: number;
+  /** Consistency index CI = (λ_max - n) / (n - 1) */
+  consistencyIndex: number;
+  /** Saaty's random index RI for n criteria */
+  randomIndex: number;
+  /** Consistency ratio CR = CI / RI (0 for n <= 2) */
+  consistencyRatio: number;
+}
+
+/**
+ * Synthesis of subjective and objective weights
+ */
+export type WeightSynthesis = "additive" | "multiplicative";
+
+/**
+ * Options for combining subjective and objective weights
+ */
+export interface WeightSynthesisOptions {
+  /** Synthesis method (default: "additive") */
+  synthesis?: WeightSynthesis;
+  /** Share α of the subjective weights in the additive synthesis [0-1] (default: 0.5) */
+  alpha?: number;
+}
+
+/**
+ * Triangular fuzzy number (l, m, u) with 0 < l <= m <= u
+ */
+export type TriangularFuzzyNumber = [number, number, number];
+
+/**
+ * Method turning a triangular fuzzy number into a crisp value
+ */
+export type DefuzzificationMethod = "centroid" | "gradedMean";
+
+/**
+ * Options for fuzzy MEREC
+ */
+export interface FuzzyMerecOptions {
+  /** Optional logger called for every diagnostic */
+  logger?: DiagnosticReporter;
+  /** Defuzzification of the fuzzy weights (default: "centroid") */
+  defuzzification?: DefuzzificationMethod;
+}
+
+/**
+ * Detailed fuzzy MEREC result with triangular fuzzy intermediate steps
+ */
+export interface FuzzyMerecResult {
+  /** Criteria in column order */
+  criteria: Criteria[];
+  /** MER-02: Fuzzy normalized matrix */
+  normalizedMatrix: TriangularFuzzyNumber[][];
+  /** MER-03: Fuzzy overall performance S_i of each alternative */
+  overallPerformances: TriangularFuzzyNumber[];
+  /** MER-04: Fuzzy performance S'_ij of alternative i with criterion j removed */
+  removalPerformances: TriangularFuzzyNumber[][];
+  /** MER-05: Fuzzy sum of absolute deviations E_j of each criterion */
+  absoluteDeviations: TriangularFuzzyNumber[];
+  /** MER-06: Fuzzy criteria weights */
+  fuzzyWeights: TriangularFuzzyNumber[];
+  /** Defuzzification method used */
+  defuzzification: DefuzzificationMethod;
+  /** MER-06: Defuzzified criteria weights [0-1] that sum to 1.0 */
+  weights: number[];
+  /** Diagnostics emitted by every step, in order */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Closed interval [lower, upper] with 0 < lower <= upper
+ */
+export type Interval = [number, number];
+
+/**
+ * Options for interval MEREC
+ */
+export interface IntervalMerecOptions {
+  /** Optional logger called for every diagnostic */
+  logger?: DiagnosticReporter;
+}
+
+/**
+ * Detailed interval MEREC result with interval intermediate steps
+ */
+export interface IntervalMerecResult {
+  /** Criteria in column order */
+  criteria: Criteria[];
+  /** MER-02: Interval normalized matrix */
+  normalizedMatrix: Interval[][];
+  /** MER-03: Interval overall performance S_i of each alternative */
+  overallPerformances: Interval[];
+  /** MER-04: Interval performance S'_ij of alternative i with criterion j removed */
+  removalPerformances: Interval[][];
+  /** MER-05: Interval sum of absolute deviations E_j of each criterion, bounded per cell of |S'_ij - S_i| */
+  absoluteDeviations: Interval[];
+  /** MER-06: Interval criteria weights that enclose the MEREC weights of every matrix within the intervals */
+  intervalWeights: Interval[];
+  /** MER-06: Point estimate of the criteria weights [0-1] that sum to 1.0 */
+  weights: number[];
+  /** Diagnostics emitted by every step, in order */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * When the evaluators' judgments are combined in group MEREC
+ * - "matrix" - aggregate the decision matrices, then weight the group matrix
+ * - "weights" - weight every matrix, then aggregate the weight vectors
+ */
+export type GroupAggregationStage = "matrix" | "weights";
+
+/**
+ * Weighted mean used to aggregate matrices or weight vectors
+ */
+export type GroupAggregationMean = "arithmetic" | "geometric";
+
+/**
+ * Options for group MEREC
+ */
+export interface GroupMerecOptions extends MerecOptions {
+  /** Importance of every evaluator, normalized to sum 1 (default: equal) */
+  evaluatorWeights?: number[];
+  /** Aggregation stage (default: "matrix") */
+  stage?: GroupAggregationStage;
+  /** Aggregation mean (default: "arithmetic") */
+  mean?: GroupAggregationMean;
+}
+
+/**
+ * Group MEREC result with the consensus between evaluators
+ */
+export interface GroupMerecResult {
+  /** Aggregation stage used */
+  stage: GroupAggregationStage;
+  /** Aggregation mean used */
+  mean: GroupAggregationMean;
+  /** Normalized importance λ_k of every evaluator */
+  evaluatorWeights: number[];
+  /** Aggregated decision matrix ("matrix" stage only) */
+  aggregatedMatrix?: MatrixValue[][];
+  /** MEREC weights of every evaluator's own matrix (null for an incomplete matrix in the "matrix" stage under the "reject" policy) */
+  individualWeights: (number[] | null)[];
+  /** Group criteria weights [0-1] that sum to 1.0 */
+  weights: number[];
+  /** Agreement 1 - ½ Σ_j |w^k_j - w_j| of every evaluator with the group weights [0-1] (null without individual weights) */
+  evaluatorConsensus: (number | null)[];
+  /** Consensus degree Σ_k λ_k · evaluatorConsensus_k over the evaluators with a consensus, λ_k renormalized [0-1] (1 = full agreement, null when no evaluator has one) */
+  consensusDegree: number | null;
+  /** Diagnostics emitted by every MEREC run, in order */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Inputs perturbed by the sensitivity analysis
+ * - "column" - the spread of one criterion above its minimum, x' = min + (x - min)(1 + p)
+ *   (scaling a whole column never changes MEREC weights, since MER-02 uses ratios)
+ * - "cell" - one cell at a time, x' = x (1 + p)
+ */
+export type SensitivityMode = "column" | "cell";
+
+/**
+ * Options for the one-at-a-time sensitivity analysis
+ */
+export interface SensitivityOptions extends MerecOptions {
+  /** Perturbed inputs (default: "column") */
+  mode?: SensitivityMode;
+  /** Relative perturbations in percent, each > -100 and non-zero (default: [-20, -10, -5, 5, 10, 20]) */
+  perturbations?: number[];
+}
+
+/**
+ * MEREC weights after one perturbation of one input
+ */
+export interface SensitivityLevel {
+  /** Relative perturbation in percent */
+  perturbation: number;
+  /** Criteria weights of the perturbed matrix */
+  weights: number[];
+  /** Criterion ranks of the perturbed weights (1 = most important) */
+  ranks: number[];
+  /** Whether the criterion ranking differs from the unperturbed ranking */
+  rankChanged: boolean;
+}
+
+/**
+ * Sensitivity of the MEREC weights to one input (a column or a cell)
+ */
+export interface SensitivityInput {
+  /** Row index of the perturbed cell ("cell" mode only) */
+  alternativeIndex?: number;
+  /** Column index of the perturbed criterion or cell */
+  criterionIndex: number;
+  /** Weights at every perturbation level */
+  levels: SensitivityLevel[];
+  /** Mean elasticity (Δw_j / w_j) / p of every weight over the levels, p = perturbation / 100 (NaN when w_j = 0) */
+  elasticities: number[];
+  /** Smallest tested decrease (in percent, negative) that changes the criterion ranking */
+  rankChangeDecrease: number | null;
+  /** Smallest tested increase (in percent) that changes the criterion ranking */
+  rankChangeIncrease: number | null;
+}
+
+/**
+ * One-at-a-time sensitivity analysis of the MEREC weights
+ */
+export interface SensitivityResult {
+  /** Perturbed inputs */
+  mode: SensitivityMode;
+  /** Tested relative perturbations in percent, ascending */
+  perturbations: number[];
+  /** Weights of the unperturbed matrix */
+  baseWeights: number[];
+  /** Criterion ranks of the unperturbed weights (1 = most important) */
+  baseRanks: number[];
+  /** Sensitivity of every column, or of every observed cell in row-major order */
+  inputs: SensitivityInput[];
+  /** Diagnostics of the unperturbed MEREC run */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * How noise is applied to a cell: x (1 + ε) ("relative") or x + ε ("absolute")
+ */
+export type NoiseScale = "relative" | "absolute";
+
+/**
+ * Uniform noise ε ~ U(-halfWidth, halfWidth)
+ */
+export interface UniformNoise {
+  type: "uniform";
+  /** Half width of the interval */
+  halfWidth: number;
+  /** Relative or absolute noise (default: "relative") */
+  scale?: NoiseScale;
+}
+
+/**
+ * Normal noise ε ~ N(0, standardDeviation²)
+ */
+export interface NormalNoise {
+  type: "normal";
+  /** Standard deviation */
+  standardDeviation: number;
+  /** Relative or absolute noise (default: "relative") */
+  scale?: NoiseScale;
+}
+
+/**
+ * Triangular noise ε ~ Tri(lower, mode, upper)
+ */
+export interface TriangularNoise {
+  type: "triangular";
+  /** Lower bound */
+  lower: number;
+  /** Most likely value */
+  mode: number;
+  /** Upper bound */
+  upper: number;
+  /** Relative or absolute noise (default: "relative") */
+  scale?: NoiseScale;
+}
+
+/**
+ * Noise distribution of an input value
+ */
+export type NoiseDistribution = UniformNoise | NormalNoise | TriangularNoise;
+
+/**
+ * Noise of the decision matrix: one distribution for every cell, one per column,
+ * or one per cell (null = no noise)
+ */
+export type NoiseSpecification =
+  | NoiseDistribution
+  | (NoiseDistribution | null)[]
+  | (NoiseDistribution | null)[][];
+
+/**
+ * Options for the Monte Carlo simulation
+ */
+export interface MonteCarloOptions extends MerecOptions {
+  /** Number of simulated matrices (default: 1000) */
+  iterations?: number;
+  /** Seed of the deterministic random number generator (default: 1) */
+  seed?: number;
+  /** Confidence level of the percentile intervals (default: 0.95) */
+  confidenceLevel?: number;
+}
+
+/**
+ * Monte Carlo distribution of the MEREC weights
+ */
+export interface MonteCarloResult {
+  /** Number of simulated matrices */
+  iterations: number;
+  /** Seed used */
+  seed: number;
+  /** Confidence level of the intervals */
+  confidenceLevel: number;
+  /** Weights of the matrix without noise */
+  baseWeights: number[];
+  /** Mean weight of every criterion */
+  meanWeights: number[];
+  /** Sample standard deviation of every weight */
+  standardDeviations: number[];
+  /** Percentile confidence interval of every weight */
+  confidenceIntervals: Interval[];
+  /** Probability that criterion j holds rank r + 1, rankProbabilities[j][r] (tied criteria split their ranks evenly) */
+  rankProbabilities: number[][];
+  /** Diagnostics of the MEREC run without noise */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Influence of one alternative on the MEREC weights (leave-one-out)
+ */
+export interface AlternativeInfluence {
+  /** Row index of the removed alternative */
+  alternativeIndex: number;
+  /** Id of the removed alternative */
+  alternativeId: string;
+  /** Criteria weights without the alternative */
+  weights: number[];
+  /** Change w^(-i)_j - w_j of every weight caused by removing the alternative */
+  influence: number[];
+  /** Total influence ½ Σ_j |w^(-i)_j - w_j| [0-1] */
+  totalInfluence: number;
+  /** Criterion ranks without the alternative (1 = most important) */
+  ranks: number[];
+  /** Whether removing the alternative changes the criterion ranking */
+  rankChanged: boolean;
+}
+
+/**
+ * Leave-one-alternative-out (jackknife) influence analysis of the MEREC weights
+ */
+export interface InfluenceResult {
+  /** Weights with every alternative */
+  baseWeights: number[];
+  /** Criterion ranks with every alternative (1 = most important) */
+  baseRanks: number[];
+  /** Influence of every alternative in row order */
+  alternatives: AlternativeInfluence[];
+  /** Jackknife standard error of every weight */
+  standardErrors: number[];
+  /** Row indices of the alternatives whose removal changes the criterion ranking */
+  rankChangingAlternatives: number[];
+  /** Diagnostics of the MEREC run with every alternative */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Ranking method accepting a decision matrix, e.g. calculateTopsisRanking
+ */
+export type RankingMethod = (
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: RankingOptions
+) => RankingResult;
+
+/**
+ * Manipulation of the alternative set in a rank reversal test
+ * - "add-dominated" - append a copy of one alternative made strictly worse on every criterion
+ *   (target values are moved beyond the acceptable range)
+ * - "add-duplicate" - append an exact copy of one alternative
+ * - "remove-non-optimal" - remove one alternative that is not ranked first
+ */
+export type RankReversalManipulation =
+  "add-dominated" | "add-duplicate" | "remove-non-optimal";
+
+/**
+ * Options for the rank reversal test, passed on to the ranking method
+ */
+export interface RankReversalOptions extends RankingOptions {
+  /** Manipulations to test (default: every manipulation) */
+  manipulations?: RankReversalManipulation[];
+  /** Relative amount by which dominated copies are made worse (default: 0.1) */
+  dominanceMargin?: number;
+}
+
+/**
+ * Pair of original alternatives whose order is reversed
+ */
+export interface RankReversalPair {
+  /** Row index of the alternative ranked better before the manipulation */
+  better: number;
+  /** Row index of the alternative ranked worse before the manipulation */
+  worse: number;
+}
+
+/**
+ * Ranking of the original alternatives after one manipulation
+ */
+export interface RankReversalScenario {
+  /** Applied manipulation */
+  manipulation: RankReversalManipulation;
+  /** Row index of the copied or removed alternative */
+  alternativeIndex: number;
+  /** Rank of every original alternative after the manipulation (null = removed) */
+  ranks: (number | null)[];
+  /** Pairs of original alternatives that are now strictly ranked the other way round */
+  reversals: RankReversalPair[];
+}
+
+/**
+ * Rank reversal test of a ranking method
+ */
+export interface RankReversalResult {
+  /** Rank of every alternative without manipulation (1 = best) */
+  baseRanks: number[];
+  /** Every tested manipulation */
+  scenarios: RankReversalScenario[];
+  /** Scenarios with at least one rank reversal */
+  reversedScenarios: RankReversalScenario[];
+  /** Share of scenarios with at least one rank reversal [0-1] */
+  reversalRate: number;
+}
+
+/**
+ * Weight sampling of the stochastic multicriteria acceptability analysis
+ * - "dirichlet" - Dirichlet distribution centered on the weights, α_j = concentration · w_j
+ * - "bounded" - uniform on the simplex within optional per-criterion bounds
+ */
+export type WeightSampling = "dirichlet" | "bounded";
+
+/**
+ * Options for the stochastic multicriteria acceptability analysis (SMAA)
+ */
+export interface SmaaOptions extends RankingOptions {
+  /** Weight sampling (default: "dirichlet") */
+  sampling?: WeightSampling;
+  /** Dirichlet concentration α_0 > 0, larger values stay closer to the weights (default: 100) */
+  concentration?: number;
+  /** Bounds [lower, upper] of every weight for "bounded" sampling (default: [0, 1]) */
+  weightBounds?: Interval[];
+  /** Optional measurement noise of the decision matrix */
+  noise?: NoiseSpecification;
+  /** Number of sampled weight vectors (default: 1000) */
+  iterations?: number;
+  /** Seed of the deterministic random number generator (default: 1) */
+  seed?: number;
+}
+
+/**
+ * Rank acceptability of the alternatives under weight uncertainty (SMAA-2)
+ */
+export interface SmaaResult {
+  /** Number of sampled weight vectors */
+  iterations: number;
+  /** Seed used */
+  seed: number;
+  /** Weight sampling used */
+  sampling: WeightSampling;
+  /** Weights the sampling is centered on (default: MEREC weights) */
+  centerWeights: number[];
+  /** Ranks of the alternatives with the center weights (1 = best) */
+  baseRanks: number[];
+  /** Rank acceptability index b^r_i: probability that alternative i obtains rank r + 1, rankAcceptability[i][r] (tied alternatives split their ranks evenly) */
+  rankAcceptability: number[][];
+  /** Central weight vector of every alternative (mean weights ranking it first, null if never first) */
+  centralWeights: (number[] | null)[];
+  /** Confidence factor: probability that the alternative ranks first with its central weights */
+  confidenceFactors: number[];
+  /** Diagnostics of the ranking with the center weights */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Lower and upper bound of a weight or of the total weight of a group [0-1]
+ */
+export interface WeightBound {
+  /** Lower bound (default: 0) */
+  min?: number;
+  /** Upper bound (default: 1) */
+  max?: number;
+}
+
+/**
+ * Bound of the total weight of a group of criteria
+ */
+export interface WeightGroupConstraint extends WeightBound {
+  /** Group name used in the report (default: "G1", "G2", ...) */
+  name?: string;
+  /** Ids of the criteria in the group */
+  criteria: string[];
+}
+
+/**
+ * Constraints on the final criteria weights. `min` and `max` apply to every
+ * criterion unless overridden in `bounds`.
+ */
+export interface WeightConstraints extends WeightBound {
+  /** Per-criterion bounds keyed by criterion id ("C1", "C2", ... for matrix input) */
+  bounds?: Record<string, WeightBound>;
+  /** Bounds of the total weight of groups of criteria */
+  groups?: WeightGroupConstraint[];
+}
+
+/**
+ * Weight constraint that holds with equality in the constrained weights
+ */
+export interface ActiveWeightConstraint {
+  /** Bound of a single criterion or of a group */
+  kind: "criterion" | "group";
+  /** Criterion id or group name */
+  id: string;
+  /** Ids of the constrained criteria */
+  criteria: string[];
+  /** Lower or upper bound */
+  bound: "lower" | "upper";
+  /** Value of the bound */
+  limit: number;
+  /** Weight (or total group weight) before the adjustment */
+  unconstrainedValue: number;
+}
+
+/**
+ * Closest weights that satisfy the weight constraints
+ */
+export interface WeightConstraintReport {
+  /** Weights before the adjustment */
+  unconstrainedWeights: number[];
+  /** Closest feasible weights (least squares) that sum to 1.0 */
+  weights: number[];
+  /** Movement of every weight: weights[j] - unconstrainedWeights[j] */
+  adjustments: number[];
+  /** Euclidean distance between the unconstrained and the constrained weights */
+  distance: number;
+  /** Constraints that hold with equality */
+  activeConstraints: ActiveWeightConstraint[];
+}
+
+/**
+ * MEREC calculation step identifier
+ */
+export type MerecStep =
+  "MER-01" | "MER-02" | "MER-03" | "MER-04" | "MER-05" | "MER-06";
+
+/**
+ * Severity of a diagnostic emitted during the calculation
+ */
+export type DiagnosticSeverity = "info" | "warning";
+
+/**
+ * Machine-readable diagnostic code
+ */
+export type MerecDiagnosticCode =
+  | "NON_POSITIVE_VALUE_CONVERTED"
+  | "COLUMN_SHIFTED"
+  | "COLUMN_RESCALED"
+  | "MISSING_VALUE_IMPUTED"
+  | "MISSING_VALUE_SKIPPED"
+  | "ALTERNATIVE_DROPPED"
+  | "NON_POSITIVE_BENEFIT_MIN"
+  | "ZERO_COST_MAX"
+  | "NON_FINITE_LOG"
+  | "NON_FINITE_PERFORMANCE"
+  | "NEGATIVE_PERFORMANCE"
+  | "SINGLE_CRITERION_REMOVAL"
+  | "NON_FINITE_REMOVAL_PERFORMANCE"
+  | "NEGATIVE_REMOVAL_PERFORMANCE"
+  | "NON_FINITE_DEVIATION"
+  | "NEGATIVE_DEVIATION"
+  | "EQUAL_WEIGHT_FALLBACK"
+  | "WEIGHTS_RENORMALIZED"
+  | "WEIGHT_CONSTRAINED";
+
+/**
+ * Structured diagnostic emitted by a MEREC step
+ */
+export interface MerecDiagnostic {
+  /** Machine-readable code */
+  code: MerecDiagnosticCode;
+  /** Severity level */
+  severity: DiagnosticSeverity;
+  /** Step that emitted the diagnostic */
+  step: MerecStep;
+  /** Row index of the affected alternative in the input (before dropped rows), if any */
+  alternativeIndex?: number;
+  /** Column index of the affected criterion, if any */
+  criterionIndex?: number;
+  /** Human-readable message */
+  message: string;
+}
+
+/**
+ * Callback receiving every diagnostic as soon as it is emitted
+ */
+export type DiagnosticReporter = (diagnostic: MerecDiagnostic) => void;
+
+/**
+ * Options for the MEREC entry points
+ */
+export interface MerecOptions {
+  /** Optional logger called for every diagnostic */
+  logger?: DiagnosticReporter;
+  /** Strategy for non-positive values in every column (default: "legacy") */
+  nonPositiveStrategy?: NonPositiveStrategy;
+  /** Per-criterion strategy overrides keyed by criterion id ("C1", "C2", ... for matrix input) */
+  nonPositiveStrategyByCriterion?: Record<string, NonPositiveStrategy>;
+  /** Policy for missing values (default: "reject") */
+  missingValuePolicy?: MissingValuePolicy;
+  /** Normalization scheme for MER-02 (default: "merec") */
+  normalization?: NormalizationScheme;
+  /** Bounds of the final weights; MER-06 returns the closest feasible weights */
+  weightConstraints?: WeightConstraints;
 }
@@ -0,0 +1,213 @@
+/**
+ * AHP (Analytic Hierarchy Process) subjective priority weights from a
+ * pairwise comparison matrix
+ */
+
+import { AhpOptions, AhpPriorityMethod, AhpResult } from "../types";
+import {
+  MerecDegenerateError,
+  MerecInputError,
+  MerecValueError,
+} from "../errors";
+import { validateFinalWeights } from "../calculation/mer06-bobotAkhir";
+
+/**
+ * Saaty's random consistency index RI for n = 1..15
+ */
+const RANDOM_INDEX = [
+  0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57,
+  1.59,
+];
+
+/**
+ * Relative tolerance of a_ij · a_ji = 1 (allows rounded reciprocals such as 0.333)
+ */
+const RECIPROCAL_TOLERANCE = 1e-2;
+
+/**
+ * Convergence tolerance and iteration limit of the power method
+ */
+const POWER_TOLERANCE = 1e-12;
+const POWER_MAX_ITERATIONS = 1000;
+
+/**
+ * Calculate AHP priority weights from a pairwise comparison matrix
+ * @param pairwiseMatrix - Reciprocal matrix where a_ij is the importance of criterion i over j (Saaty's 1-9 scale)
+ * @param options - Optional AHP options (priority method and accepted consistency ratio)
+ * @returns Priority weights with λ_max, CI, RI and CR
+ */
+export function calculateAhpWeights(
+  pairwiseMatrix: number[][],
+  options: AhpOptions = {}
+): AhpResult {
+  const method: AhpPriorityMethod = options.method ?? "eigenvector";
+  const maxConsistencyRatio = options.maxConsistencyRatio ?? 0.1;
+
+  if (method !== "eigenvector" && method !== "geometricMean") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Metode prioritas AHP tidak dikenal: ${method}`
+    );
+  }
+
+  if (typeof maxConsistencyRatio !== "number" || !(maxConsistencyRatio >= 0)) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Batas rasio konsistensi harus bernilai >= 0: ${maxConsistencyRatio}`,
+      { value: maxConsistencyRatio }
+    );
+  }
+
+  validatePairwiseMatrix(pairwiseMatrix);
+
+  const a = pairwiseMatrix;
+  const n = a.length; // jumlah kriteria
+
+  const weights =
+    method === "eigenvector"
+      ? calculateEigenvectorPriorities(a)
+      : calculateGeometricMeanPriorities(a);
+
+  // λ_max = (1/n) Σ_i (A w)_i / w_i
+  let lambdaMax = 0;
+  for (let i = 0; i < n; i++) {
+    let product = 0;
+    for (let j = 0; j < n; j++) {
+      product += a[i][j] * weights[j];
+    }
+    lambdaMax += product / weights[i] / n;
+  }
+
+  // CI = (λ_max - n) / (n - 1), CR = CI / RI; matriks 1x1 dan 2x2 selalu konsisten
+  const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length) - 1];
+  const consistencyIndex = n > 2 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+  const consistencyRatio = n > 2 ? consistencyIndex / randomIndex : 0;
+
+  if (consistencyRatio > maxConsistencyRatio) {
+    throw new MerecDegenerateError(
+      "INCONSISTENT_JUDGMENTS",
+      `Rasio konsistensi (${consistencyRatio.toFixed(4)}) melebihi batas ${maxConsistencyRatio}. ` +
+        `Perbaiki penilaian berpasangan atau naikkan maxConsistencyRatio.`,
+      { value: consistencyRatio }
+    );
+  }
+
+  validateFinalWeights(weights);
+
+  return {
+    weights,
+    method,
+    lambdaMax,
+    consistencyIndex,
+    randomIndex,
+    consistencyRatio,
+  };
+}
+
+/**
+ * Validate that a pairwise comparison matrix is square, positive and reciprocal
+ * @param a - Pairwise comparison matrix
+ */
+function validatePairwiseMatrix(a: number[][]): void {
+  const n = a.length;
+
+  if (n === 0) {
+    throw new MerecInputError(
+      "EMPTY_MATRIX",
+      "Matriks perbandingan berpasangan tidak boleh kosong"
+    );
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (!Array.isArray(a[i]) || a[i].length !== n) {
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Matriks perbandingan berpasangan harus persegi: baris ${i} memiliki ${a[i]?.length ?? 0} kolom, seharusnya ${n}`,
+        { row: i, expected: n, actual: a[i]?.length ?? 0 }
+      );
+    }
+
+    for (let j = 0; j < n; j++) {
+      const a_ij = a[i][j];
+
+      if (typeof a_ij !== "number" || !isFinite(a_ij)) {
+        throw new MerecValueError(
+          "NON_FINITE_VALUE",
+          `Nilai tidak valid pada perbandingan [${i}][${j}]: ${a_ij}`,
+          { row: i, column: j }
+        );
+      }
+
+      if (a_ij <= 0) {
+        throw new MerecValueError(
+          "NON_POSITIVE_VALUE",
+          `Nilai perbandingan harus positif pada [${i}][${j}]: ${a_ij}`,
+          { row: i, column: j, value: a_ij }
+        );
+      }
+    }
+  }
+
+  // a_ii = 1 dan a_ji = 1 / a_ij
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      if (Math.abs(a[i][j] * a[j][i] - 1) > RECIPROCAL_TOLERANCE) {
+        throw new MerecValueError(
+          "NON_RECIPROCAL_JUDGMENT",
+          i === j
+            ? `Diagonal matriks perbandingan harus bernilai 1 pada [${i}][${i}]: ${a[i][i]}`
+            : `Perbandingan [${j}][${i}] harus kebalikan dari [${i}][${j}]: ${a[j][i]} ≠ 1/${a[i][j]}`,
+          { row: j, column: i, value: a[j][i] }
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Principal eigenvector of the pairwise matrix by the power method
+ * @param a - Pairwise comparison matrix
+ * @returns Priority weights that sum to 1.0
+ */
+function calculateEigenvectorPriorities(a: number[][]): number[] {
+  const n = a.length;
+  let weights: number[] = new Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < POWER_MAX_ITERATIONS; iteration++) {
+    // w ← A w / Σ (A w); matriks positif menjamin konvergensi (Perron-Frobenius)
+    const product = a.map((row) =>
+      row.reduce((sum, a_ij, j) => sum + a_ij * weights[j], 0)
+    );
+    const total = product.reduce((sum, v) => sum + v, 0);
+    const next = product.map((v) => v / total);
+
+    const change = next.reduce(
+      (max, w, i) => Math.max(max, Math.abs(w - weights[i])),
+      0
+    );
+    weights = next;
+
+    if (change < POWER_TOLERANCE) {
+      break;
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Normalized geometric mean of every row of the pairwise matrix
+ * @param a - Pairwise comparison matrix
+ * @returns Priority weights that sum to 1.0
+ */
+function calculateGeometricMeanPriorities(a: number[][]): number[] {
+  const n = a.length;
+
+  // Rata-rata geometrik lewat logaritma agar hasil kali tidak overflow
+  const means = a.map((row) =>
+    Math.exp(row.reduce((sum, a_ij) => sum + Math.log(a_ij), 0) / n)
+  );
+  const total = means.reduce((sum, v) => sum + v, 0);
+
+  return means.map((v) => v / total);
+}
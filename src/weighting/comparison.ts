@@ -0,0 +1,211 @@
+/**
+ * Comparison of MEREC weights with other weighting methods
+ */
+
+import {
+  ConsensusCriterion,
+  Criteria,
+  WeightComparison,
+  WeightComparisonOptions,
+  WeightCorrelation,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { validateFinalWeights } from "../calculation/mer06-bobotAkhir";
+import { rankCriteria } from "./input";
+
+/**
+ * Compare MEREC weights with other weight vectors of the same decision problem
+ * @param merecWeights - MEREC weights (e.g. output of calculateMerecWeights)
+ * @param otherWeights - Other weight vectors keyed by method name
+ * @param options - Optional comparison options (criteria labels)
+ * @returns Rank correlations, rank shifts and consensus ordering
+ */
+export function compareWeightingMethods(
+  merecWeights: number[],
+  otherWeights: Record<string, number[]>,
+  options: WeightComparisonOptions = {}
+): WeightComparison {
+  const n = merecWeights.length; // jumlah kriteria
+
+  if (n === 0) {
+    throw new MerecInputError(
+      "EMPTY_CRITERIA",
+      "Bobot MEREC tidak boleh kosong"
+    );
+  }
+
+  if ("merec" in otherWeights) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Nama metode 'merec' sudah digunakan untuk bobot MEREC"
+    );
+  }
+
+  const criteria: Criteria[] =
+    options.criteria ??
+    merecWeights.map((_, j) => ({
+      id: `C${j + 1}`,
+      name: `Criteria ${j + 1}`,
+      type: "benefit",
+    }));
+
+  if (criteria.length !== n) {
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah kriteria (${criteria.length}) harus sama dengan jumlah bobot (${n})`,
+      { expected: n, actual: criteria.length }
+    );
+  }
+
+  const methods = ["merec", ...Object.keys(otherWeights)];
+  const weights: Record<string, number[]> = { merec: [...merecWeights] };
+
+  for (const method of methods.slice(1)) {
+    weights[method] = [...otherWeights[method]];
+  }
+
+  // Validasi setiap vektor bobot seperti MER-06
+  for (const method of methods) {
+    if (weights[method].length !== n) {
+      throw new MerecInputError(
+        "COLUMN_COUNT_MISMATCH",
+        `Jumlah bobot metode '${method}' (${weights[method].length}) harus sama dengan ${n}`,
+        { id: method, expected: n, actual: weights[method].length }
+      );
+    }
+    validateFinalWeights(weights[method]);
+  }
+
+  const ranks: Record<string, number[]> = {};
+  for (const method of methods) {
+    ranks[method] = rankCriteria(weights[method]);
+  }
+
+  // Korelasi setiap pasangan metode
+  const correlations: WeightCorrelation[] = [];
+  for (let a = 0; a < methods.length; a++) {
+    for (let b = a + 1; b < methods.length; b++) {
+      const methodA = methods[a];
+      const methodB = methods[b];
+      correlations.push({
+        methodA,
+        methodB,
+        spearman: calculateSpearman(ranks[methodA], ranks[methodB]),
+        kendall: calculateKendall(ranks[methodA], ranks[methodB]),
+        pearson: calculatePearson(weights[methodA], weights[methodB]),
+      });
+    }
+  }
+
+  // Pergeseran peringkat relatif terhadap MEREC
+  const rankShifts: Record<string, number[]> = {};
+  for (const method of methods) {
+    rankShifts[method] = ranks[method].map((rank, j) => rank - ranks.merec[j]);
+  }
+
+  // Urutan konsensus: rata-rata peringkat, lalu rata-rata bobot sebagai pemecah seri
+  const consensus = criteria.map((c, j) => ({
+    id: c.id,
+    name: c.name,
+    criterionIndex: j,
+    meanRank:
+      methods.reduce((sum, method) => sum + ranks[method][j], 0) /
+      methods.length,
+    meanWeight:
+      methods.reduce((sum, method) => sum + weights[method][j], 0) /
+      methods.length,
+  }));
+
+  consensus.sort(
+    (a, b) => a.meanRank - b.meanRank || b.meanWeight - a.meanWeight
+  );
+
+  const consensusRanking: ConsensusCriterion[] = consensus.map((c, index) => ({
+    ...c,
+    ranking: index + 1,
+  }));
+
+  return {
+    methods,
+    criteria,
+    weights,
+    ranks,
+    correlations,
+    rankShifts,
+    consensusRanking,
+  };
+}
+
+/**
+ * Spearman's rank correlation ρ, the Pearson correlation of the (average) ranks
+ * @param ranksA - First ranking
+ * @param ranksB - Second ranking
+ * @returns ρ in [-1, 1] (1 for a single criterion, NaN when either ranking is fully tied)
+ */
+function calculateSpearman(ranksA: number[], ranksB: number[]): number {
+  if (ranksA.length < 2) {
+    return 1;
+  }
+
+  return calculatePearson(ranksA, ranksB);
+}
+
+/**
+ * Kendall's tau-b τ = (concordant - discordant) / √((n₀ - n₁)(n₀ - n₂)),
+ * with n₀ = n (n - 1) / 2 and n₁, n₂ the pairs tied in each ranking
+ * @param ranksA - First ranking
+ * @param ranksB - Second ranking
+ * @returns τ in [-1, 1] (1 for a single criterion, NaN when either ranking is fully tied)
+ */
+function calculateKendall(ranksA: number[], ranksB: number[]): number {
+  const n = ranksA.length;
+  if (n < 2) {
+    return 1;
+  }
+
+  let score = 0;
+  let tiesA = 0;
+  let tiesB = 0;
+  for (let j = 0; j < n; j++) {
+    for (let k = j + 1; k < n; k++) {
+      const signA = Math.sign(ranksA[j] - ranksA[k]);
+      const signB = Math.sign(ranksB[j] - ranksB[k]);
+      score += signA * signB;
+      if (signA === 0) tiesA++;
+      if (signB === 0) tiesB++;
+    }
+  }
+
+  const pairs = (n * (n - 1)) / 2;
+  const denominator = Math.sqrt((pairs - tiesA) * (pairs - tiesB));
+
+  return denominator === 0 ? NaN : score / denominator;
+}
+
+/**
+ * Pearson correlation coefficient
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns r in [-1, 1], or NaN when either vector is constant
+ */
+function calculatePearson(a: number[], b: number[]): number {
+  const n = a.length;
+  const meanA = a.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  for (let j = 0; j < n; j++) {
+    covariance += (a[j] - meanA) * (b[j] - meanB);
+    varianceA += (a[j] - meanA) ** 2;
+    varianceB += (b[j] - meanB) ** 2;
+  }
+
+  if (varianceA === 0 || varianceB === 0) {
+    return NaN;
+  }
+
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
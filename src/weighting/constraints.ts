@@ -0,0 +1,454 @@
+/**
+ * Post-processing of criteria weights to per-criterion and group bounds
+ */
+
+import {
+  ActiveWeightConstraint,
+  Criteria,
+  DiagnosticReporter,
+  WeightBound,
+  WeightConstraintReport,
+  WeightConstraints,
+} from "../types";
+import { MerecInputError } from "../errors";
+import { validateFinalWeights } from "../calculation/mer06-bobotAkhir";
+
+/**
+ * Tolerance for satisfied and active constraints
+ */
+const CONSTRAINT_TOLERANCE = 1e-9;
+
+/**
+ * Maximum number of Dykstra cycles over the group constraints
+ */
+const MAX_CYCLES = 10000;
+
+/**
+ * Resolved group constraint: column indices and bounds of the total weight
+ */
+interface ResolvedGroup {
+  id: string;
+  criteria: string[];
+  columns: number[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Apply optional weight constraints to MER-06 weights and report every adjusted weight
+ * @param weights - Unconstrained criteria weights that sum to 1.0
+ * @param constraints - Default, per-criterion and group bounds (undefined = none)
+ * @param criteria - Criteria in column order
+ * @param report - Diagnostic reporter
+ * @returns Constraint report, or undefined without constraints
+ */
+export function applyWeightConstraints(
+  weights: number[],
+  constraints: WeightConstraints | undefined,
+  criteria: Criteria[],
+  report: DiagnosticReporter
+): WeightConstraintReport | undefined {
+  if (constraints === undefined) {
+    return undefined;
+  }
+
+  const result = constrainWeights(
+    weights,
+    constraints,
+    criteria.map((c) => c.id)
+  );
+
+  result.adjustments.forEach((adjustment, j) => {
+    if (adjustment !== 0) {
+      report({
+        code: "WEIGHT_CONSTRAINED",
+        severity: "info",
+        step: "MER-06",
+        criterionIndex: j,
+        message:
+          `Bobot kriteria '${criteria[j].id}' disesuaikan dengan batasan bobot: ` +
+          `${weights[j]} -> ${result.weights[j]}`,
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Find the closest weights (least squares) that sum to 1 and satisfy the
+ * per-criterion and group bounds
+ * @param weights - Criteria weights [0-1] that sum to 1.0 (e.g. output of calculateMerecWeights)
+ * @param constraints - Default, per-criterion and group bounds
+ * @param criteriaIds - Criterion ids used by the constraints (default: "C1", "C2", ...)
+ * @returns Constrained weights, movement of every weight and the active constraints
+ */
+export function constrainWeights(
+  weights: number[],
+  constraints: WeightConstraints,
+  criteriaIds: string[] = weights.map((_, j) => `C${j + 1}`)
+): WeightConstraintReport {
+  validateFinalWeights(weights);
+
+  const n = weights.length; // jumlah kriteria
+
+  if (criteriaIds.length !== n) {
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah ID kriteria (${criteriaIds.length}) harus sama dengan jumlah bobot (${n})`,
+      { expected: n, actual: criteriaIds.length }
+    );
+  }
+
+  const { lower, upper } = resolveCriterionBounds(constraints, criteriaIds);
+  const groups = resolveGroups(constraints, criteriaIds);
+
+  // Σ_j l_j <= 1 <= Σ_j u_j agar simpleks dan kotak batas beririsan
+  const totalLower = lower.reduce((sum, l) => sum + l, 0);
+  const totalUpper = upper.reduce((sum, u) => sum + u, 0);
+
+  if (
+    totalLower > 1 + CONSTRAINT_TOLERANCE ||
+    totalUpper < 1 - CONSTRAINT_TOLERANCE
+  ) {
+    throw new MerecInputError(
+      "INFEASIBLE_CONSTRAINTS",
+      `Batas bobot tidak memuat bobot dengan total 1: Σ min = ${totalLower}, Σ max = ${totalUpper}`
+    );
+  }
+
+  const constrained =
+    groups.length === 0
+      ? projectOntoBoundedSimplex(weights, lower, upper)
+      : projectWithGroups(weights, lower, upper, groups);
+
+  // Bobot yang sudah memenuhi batasan tidak diubah
+  const unchanged =
+    weights.every((w, j) => w >= lower[j] && w <= upper[j]) &&
+    groups.every((group) => isGroupSatisfied(weights, group));
+  const result = unchanged ? [...weights] : constrained;
+
+  groups.forEach((group) => {
+    if (!isGroupSatisfied(result, group)) {
+      throw new MerecInputError(
+        "INFEASIBLE_CONSTRAINTS",
+        `Batasan kelompok '${group.id}' tidak dapat dipenuhi bersama batasan lainnya`,
+        { id: group.id }
+      );
+    }
+  });
+  validateFinalWeights(result);
+
+  const adjustments = result.map((w, j) => w - weights[j]);
+  const activeConstraints: ActiveWeightConstraint[] = [];
+
+  criteriaIds.forEach((id, j) => {
+    const bounds: ["lower" | "upper", number][] = [
+      ["lower", lower[j]],
+      ["upper", upper[j]],
+    ];
+    bounds.forEach(([bound, limit]) => {
+      // Batas default [0, 1] bukan batasan dari pengguna
+      if (limit === (bound === "lower" ? 0 : 1)) {
+        return;
+      }
+      if (Math.abs(result[j] - limit) <= CONSTRAINT_TOLERANCE) {
+        activeConstraints.push({
+          kind: "criterion",
+          id,
+          criteria: [id],
+          bound,
+          limit,
+          unconstrainedValue: weights[j],
+        });
+      }
+    });
+  });
+
+  groups.forEach((group) => {
+    const total = sumColumns(result, group.columns);
+    const bounds: ["lower" | "upper", number | undefined][] = [
+      ["lower", group.min],
+      ["upper", group.max],
+    ];
+    bounds.forEach(([bound, limit]) => {
+      if (
+        limit !== undefined &&
+        Math.abs(total - limit) <= CONSTRAINT_TOLERANCE
+      ) {
+        activeConstraints.push({
+          kind: "group",
+          id: group.id,
+          criteria: group.criteria,
+          bound,
+          limit,
+          unconstrainedValue: sumColumns(weights, group.columns),
+        });
+      }
+    });
+  });
+
+  return {
+    unconstrainedWeights: [...weights],
+    weights: result,
+    adjustments,
+    distance: Math.sqrt(adjustments.reduce((sum, d) => sum + d * d, 0)),
+    activeConstraints,
+  };
+}
+
+/**
+ * Validate a lower and upper bound in [0, 1]
+ * @param bound - Bound to validate
+ * @param label - Label used in the error message
+ * @param id - Criterion id or group name
+ */
+function validateBound(bound: WeightBound, label: string, id?: string): void {
+  const { min = 0, max = 1 } = bound;
+
+  if (
+    typeof min !== "number" ||
+    typeof max !== "number" ||
+    !(min >= 0 && min <= max && max <= 1)
+  ) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `${label} harus memenuhi 0 <= min <= max <= 1: [${min}, ${max}]`,
+      { id }
+    );
+  }
+}
+
+/**
+ * Resolve the lower and upper bound of every criterion
+ * @param constraints - Weight constraints
+ * @param criteriaIds - Criterion ids in column order
+ * @returns Lower and upper bound per column
+ */
+function resolveCriterionBounds(
+  constraints: WeightConstraints,
+  criteriaIds: string[]
+): { lower: number[]; upper: number[] } {
+  validateBound(constraints, "Batas bobot default");
+
+  const overrides = constraints.bounds ?? {};
+
+  for (const id of Object.keys(overrides)) {
+    if (!criteriaIds.includes(id)) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Kriteria '${id}' pada batas bobot tidak ditemukan`,
+        { id }
+      );
+    }
+  }
+
+  const bounds = criteriaIds.map((id) => {
+    const bound = {
+      min: overrides[id]?.min ?? constraints.min ?? 0,
+      max: overrides[id]?.max ?? constraints.max ?? 1,
+    };
+    validateBound(bound, `Batas bobot kriteria '${id}'`, id);
+    return bound;
+  });
+
+  return {
+    lower: bounds.map((bound) => bound.min),
+    upper: bounds.map((bound) => bound.max),
+  };
+}
+
+/**
+ * Resolve the columns and bounds of every group constraint
+ * @param constraints - Weight constraints
+ * @param criteriaIds - Criterion ids in column order
+ * @returns Groups with column indices
+ */
+function resolveGroups(
+  constraints: WeightConstraints,
+  criteriaIds: string[]
+): ResolvedGroup[] {
+  return (constraints.groups ?? []).map((group, k) => {
+    const id = group.name ?? `G${k + 1}`;
+
+    if (!Array.isArray(group.criteria) || group.criteria.length === 0) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Kelompok '${id}' harus memuat minimal satu kriteria`,
+        { id }
+      );
+    }
+
+    if (new Set(group.criteria).size !== group.criteria.length) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Kelompok '${id}' memuat kriteria duplikat`,
+        { id }
+      );
+    }
+
+    validateBound(group, `Batas bobot kelompok '${id}'`, id);
+
+    const columns = group.criteria.map((criterionId) => {
+      const column = criteriaIds.indexOf(criterionId);
+      if (column === -1) {
+        throw new MerecInputError(
+          "INVALID_OPTION",
+          `Kriteria '${criterionId}' pada kelompok '${id}' tidak ditemukan`,
+          { id: criterionId }
+        );
+      }
+      return column;
+    });
+
+    return {
+      id,
+      criteria: [...group.criteria],
+      columns,
+      min: group.min,
+      max: group.max,
+    };
+  });
+}
+
+/**
+ * Total weight of the given columns
+ * @param weights - Criteria weights
+ * @param columns - Column indices
+ * @returns Σ_{j ∈ columns} w_j
+ */
+function sumColumns(weights: number[], columns: number[]): number {
+  return columns.reduce((sum, j) => sum + weights[j], 0);
+}
+
+/**
+ * Check whether the total weight of a group lies within its bounds
+ * @param weights - Criteria weights
+ * @param group - Group constraint
+ * @returns True if the group constraint holds (within tolerance)
+ */
+function isGroupSatisfied(weights: number[], group: ResolvedGroup): boolean {
+  const total = sumColumns(weights, group.columns);
+
+  return (
+    (group.min === undefined || total >= group.min - CONSTRAINT_TOLERANCE) &&
+    (group.max === undefined || total <= group.max + CONSTRAINT_TOLERANCE)
+  );
+}
+
+/**
+ * Euclidean projection onto {w : Σ w_j = 1, l_j <= w_j <= u_j}
+ * @param v - Point to project
+ * @param lower - Lower bound per column
+ * @param upper - Upper bound per column
+ * @returns w_j = clamp(v_j - τ, l_j, u_j) with τ such that Σ w_j = 1
+ */
+function projectOntoBoundedSimplex(
+  v: number[],
+  lower: number[],
+  upper: number[]
+): number[] {
+  const clamp = (tau: number) =>
+    v.map((v_j, j) => Math.min(upper[j], Math.max(lower[j], v_j - tau)));
+  const total = (tau: number) => clamp(tau).reduce((sum, w) => sum + w, 0);
+
+  // Σ_j clamp(v_j - τ) menurun terhadap τ: semua di u_j pada τ = lo, semua di l_j pada τ = hi
+  let lo = Math.min(...v.map((v_j, j) => v_j - upper[j]));
+  let hi = Math.max(...v.map((v_j, j) => v_j - lower[j]));
+
+  for (let iteration = 0; iteration < 200 && hi - lo > 1e-15; iteration++) {
+    const tau = (lo + hi) / 2;
+    if (total(tau) > 1) {
+      lo = tau;
+    } else {
+      hi = tau;
+    }
+  }
+
+  const w = clamp((lo + hi) / 2);
+
+  // Sisa pembulatan dibagikan ke kriteria yang tidak berada di batas
+  const residual = 1 - w.reduce((sum, w_j) => sum + w_j, 0);
+  const free = w
+    .map((_, j) => j)
+    .filter((j) => w[j] > lower[j] && w[j] < upper[j]);
+  free.forEach((j) => {
+    w[j] += residual / free.length;
+  });
+
+  return w;
+}
+
+/**
+ * Euclidean projection onto the bounded simplex intersected with the group
+ * half-spaces using Dykstra's alternating projection algorithm
+ * @param v - Point to project
+ * @param lower - Lower bound per column
+ * @param upper - Upper bound per column
+ * @param groups - Group constraints
+ * @returns Closest point of the intersection (the last iterate if it does not converge)
+ */
+function projectWithGroups(
+  v: number[],
+  lower: number[],
+  upper: number[],
+  groups: ResolvedGroup[]
+): number[] {
+  // Setiap batas kelompok adalah setengah ruang a·w >= b atau a·w <= b
+  const projections: ((y: number[]) => number[])[] = [];
+
+  groups.forEach((group) => {
+    const size = group.columns.length;
+
+    if (group.min !== undefined) {
+      const min = group.min;
+      projections.push((y) => {
+        const gap = min - sumColumns(y, group.columns);
+        const w = [...y];
+        if (gap > 0) {
+          group.columns.forEach((j) => {
+            w[j] += gap / size;
+          });
+        }
+        return w;
+      });
+    }
+
+    if (group.max !== undefined) {
+      const max = group.max;
+      projections.push((y) => {
+        const excess = sumColumns(y, group.columns) - max;
+        const w = [...y];
+        if (excess > 0) {
+          group.columns.forEach((j) => {
+            w[j] -= excess / size;
+          });
+        }
+        return w;
+      });
+    }
+  });
+
+  // Proyeksi ke simpleks berbatas terakhir agar Σ w_j = 1 dan batas kriteria selalu terpenuhi
+  projections.push((y) => projectOntoBoundedSimplex(y, lower, upper));
+
+  let x = [...v];
+  const increments = projections.map(() => new Array(v.length).fill(0));
+
+  for (let cycle = 0; cycle < MAX_CYCLES; cycle++) {
+    const previous = x;
+
+    projections.forEach((project, k) => {
+      const y = x.map((x_j, j) => x_j + increments[k][j]);
+      x = project(y);
+      increments[k] = y.map((y_j, j) => y_j - x[j]);
+    });
+
+    const change = Math.max(...x.map((x_j, j) => Math.abs(x_j - previous[j])));
+    if (change < 1e-13 && groups.every((group) => isGroupSatisfied(x, group))) {
+      break;
+    }
+  }
+
+  return x;
+}
@@ -0,0 +1,67 @@
+/**
+ * CRITIC (CRiteria Importance Through Intercriteria Correlation) objective
+ * weighting method
+ */
+
+import { CriteriaSpec, MatrixValue, MerecOptions } from "../types";
+import {
+  calculateColumnStandardDeviations,
+  normalizeMinMax,
+  resolveWeightingInput,
+  scoresToWeights,
+} from "./input";
+
+/**
+ * Calculate criteria weights using the CRITIC method
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, MER-01 value handling and weight constraints)
+ * @returns Array of criteria weights [0-1] that sum to 1.0
+ */
+export function calculateCriticWeights(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): number[] {
+  const input = resolveWeightingInput(matrix, criteriaTypes, options);
+  const { matrix: x, types } = input;
+
+  const normalized = normalizeMinMax(x, types);
+  const deviations = calculateColumnStandardDeviations(normalized);
+
+  const m = normalized.length; // jumlah alternatif
+  const n = deviations.length; // jumlah kriteria
+  const means = deviations.map(
+    (_, j) => normalized.reduce((sum, row) => sum + row[j], 0) / m
+  );
+
+  // C_j = σ_j * Σ_k (1 - r_jk), dengan r_jk korelasi Pearson antar kriteria
+  const information: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    let conflict = 0;
+
+    for (let k = 0; k < n; k++) {
+      // r_jj = 1 sehingga suku k = j selalu 0
+      if (k === j) {
+        continue;
+      }
+
+      // Kolom konstan tidak berkorelasi dengan kolom lain (r_jk = 0)
+      let r_jk = 0;
+      if (deviations[j] > 0 && deviations[k] > 0) {
+        let covariance = 0;
+        for (let i = 0; i < m; i++) {
+          covariance +=
+            (normalized[i][j] - means[j]) * (normalized[i][k] - means[k]);
+        }
+        r_jk = covariance / m / (deviations[j] * deviations[k]);
+      }
+      conflict += 1 - r_jk;
+    }
+
+    information.push(deviations[j] * conflict);
+  }
+
+  return scoresToWeights(information, input);
+}
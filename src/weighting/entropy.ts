@@ -0,0 +1,51 @@
+/**
+ * Shannon entropy objective weighting method
+ */
+
+import { CriteriaSpec, MatrixValue, MerecOptions } from "../types";
+import { resolveWeightingInput, scoresToWeights } from "./input";
+
+/**
+ * Calculate criteria weights using the entropy method
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, MER-01 value handling and weight constraints)
+ * @returns Array of criteria weights [0-1] that sum to 1.0
+ */
+export function calculateEntropyWeights(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): number[] {
+  const input = resolveWeightingInput(matrix, criteriaTypes, options);
+  const x = input.matrix;
+
+  const m = x.length; // jumlah alternatif
+  const n = x[0].length; // jumlah kriteria
+  const divergences: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    const total = x.reduce((sum, row) => sum + row[j], 0);
+
+    // Satu alternatif atau kolom berisi 0 semua tidak memiliki informasi (e_j = 1)
+    if (m === 1 || total === 0) {
+      divergences.push(0);
+      continue;
+    }
+
+    // e_j = -1/ln(m) * Σ_i p_ij ln(p_ij), dengan p_ij = x_ij / Σ_i x_ij
+    let sum = 0;
+    for (let i = 0; i < m; i++) {
+      const p_ij = x[i][j] / total;
+      if (p_ij > 0) {
+        sum += p_ij * Math.log(p_ij);
+      }
+    }
+    const e_j = -sum / Math.log(m);
+
+    // d_j = 1 - e_j (derajat divergensi)
+    divergences.push(Math.max(0, 1 - e_j));
+  }
+
+  return scoresToWeights(divergences, input);
+}
@@ -0,0 +1,211 @@
+/**
+ * Fuzzy MEREC with triangular fuzzy numbers (l, m, u) for linguistic ratings
+ */
+
+import {
+  Criteria,
+  CriteriaSpec,
+  DefuzzificationMethod,
+  FuzzyMerecOptions,
+  FuzzyMerecResult,
+  TriangularFuzzyNumber,
+} from "../types";
+import { createDiagnosticCollector } from "../diagnostics";
+import { MerecInputError, MerecValueError } from "../errors";
+import {
+  calculateFinalWeights,
+  validateFinalWeights,
+} from "../calculation/mer06-bobotAkhir";
+import {
+  calculateComponent,
+  createUncertainCriteria,
+  divideWeight,
+} from "./uncertain";
+
+/**
+ * Calculate criteria weights using MEREC on triangular fuzzy ratings
+ * @param matrix - Fuzzy decision matrix where every cell is (l, m, u)
+ * @param criteriaTypes - Array of criteria types ("benefit" or "cost")
+ * @param options - Optional calculation options (logger and defuzzification method)
+ * @returns Fuzzy intermediate steps, fuzzy weights and defuzzified weights
+ */
+export function calculateFuzzyMerecWeights(
+  matrix: TriangularFuzzyNumber[][],
+  criteriaTypes: CriteriaSpec[],
+  options: FuzzyMerecOptions = {}
+): FuzzyMerecResult {
+  const defuzzification = options.defuzzification ?? "centroid";
+
+  if (defuzzification !== "centroid" && defuzzification !== "gradedMean") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Metode defuzzifikasi tidak dikenal: ${defuzzification}`
+    );
+  }
+
+  const criteria = createUncertainCriteria(
+    matrix,
+    criteriaTypes,
+    "MEREC fuzzy"
+  );
+  validateFuzzyMatrix(matrix);
+  const { warnings, report } = createDiagnosticCollector(options.logger);
+
+  const m = matrix.length; // jumlah alternatif
+  const n = criteria.length; // jumlah kriteria
+
+  // MER-02: Normalisasi fuzzy
+  const normalizedMatrix = normalizeFuzzyMatrix(matrix, criteria);
+
+  // MER-03..MER-05 per komponen. |ln(x)| menurun untuk x <= 1, sehingga batas
+  // bawah S_i dan S'_ij berasal dari batas atas nilai ternormalisasi
+  const [lower, middle, upper] = [2, 1, 0].map((k) =>
+    calculateComponent(
+      normalizedMatrix.map((row) => row.map((v) => v[k])),
+      report
+    )
+  );
+
+  const overallPerformances: TriangularFuzzyNumber[] = [];
+  const removalPerformances: TriangularFuzzyNumber[][] = [];
+
+  for (let i = 0; i < m; i++) {
+    overallPerformances.push([
+      lower.performances[i],
+      middle.performances[i],
+      upper.performances[i],
+    ]);
+
+    const row: TriangularFuzzyNumber[] = [];
+    for (let j = 0; j < n; j++) {
+      const index = i * n + j;
+      row.push([
+        lower.removal.data[index],
+        middle.removal.data[index],
+        upper.removal.data[index],
+      ]);
+    }
+    removalPerformances.push(row);
+  }
+
+  // MER-05: E_j per komponen, diurutkan agar l <= m <= u
+  const absoluteDeviations = criteria.map(
+    (_, j) =>
+      [lower.deviations[j], middle.deviations[j], upper.deviations[j]].sort(
+        (a, b) => a - b
+      ) as TriangularFuzzyNumber
+  );
+
+  // MER-06: w_j = E_j ⊘ Σ_k E_k = (E^l_j / Σ E^u, E^m_j / Σ E^m, E^u_j / Σ E^l)
+  const [totalLower, totalMiddle, totalUpper] = [0, 1, 2].map((k) =>
+    absoluteDeviations.reduce((sum, e) => sum + e[k], 0)
+  );
+
+  let fuzzyWeights: TriangularFuzzyNumber[] = absoluteDeviations.map((e) => [
+    divideWeight(e[0], totalUpper),
+    divideWeight(e[1], totalMiddle),
+    divideWeight(e[2], totalLower),
+  ]);
+
+  const weights = calculateFinalWeights(
+    fuzzyWeights.map((w) => defuzzify(w, defuzzification)),
+    report
+  );
+  validateFinalWeights(weights);
+
+  // Tanpa deviasi sama sekali, bobot fuzzy mengikuti bobot sama rata MER-06
+  if (totalUpper === 0) {
+    fuzzyWeights = weights.map((w) => [w, w, w]);
+  }
+
+  return {
+    criteria,
+    normalizedMatrix,
+    overallPerformances,
+    removalPerformances,
+    absoluteDeviations,
+    fuzzyWeights,
+    defuzzification,
+    weights,
+    warnings,
+  };
+}
+
+/**
+ * Validate that every cell is a positive triangular fuzzy number
+ * @param matrix - Fuzzy decision matrix with validated shape
+ */
+function validateFuzzyMatrix(matrix: TriangularFuzzyNumber[][]): void {
+  matrix.forEach((row, i) => {
+    row.forEach((cell, j) => {
+      if (
+        !Array.isArray(cell) ||
+        cell.length !== 3 ||
+        !cell.every((v) => typeof v === "number" && isFinite(v))
+      ) {
+        throw new MerecValueError(
+          "INVALID_FUZZY_NUMBER",
+          `Nilai pada baris ${i + 1}, kolom ${j + 1} harus berupa bilangan fuzzy segitiga (l, m, u)`,
+          { row: i, column: j }
+        );
+      }
+
+      const [l, m, u] = cell;
+
+      if (l > m || m > u) {
+        throw new MerecValueError(
+          "INVALID_FUZZY_NUMBER",
+          `Bilangan fuzzy pada baris ${i + 1}, kolom ${j + 1} harus memenuhi l <= m <= u: (${l}, ${m}, ${u})`,
+          { row: i, column: j }
+        );
+      }
+
+      if (l <= 0) {
+        throw new MerecValueError(
+          "NON_POSITIVE_VALUE",
+          `Bilangan fuzzy pada baris ${i + 1}, kolom ${j + 1} harus positif: (${l}, ${m}, ${u})`,
+          { row: i, column: j, value: l }
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Fuzzy MEREC normalization: benefit min_k l_kj ⊘ x_ij, cost x_ij ⊘ max_k u_kj
+ * @param matrix - Validated fuzzy decision matrix
+ * @param criteria - Criteria in column order
+ * @returns Fuzzy normalized matrix with every component in (0, 1]
+ */
+function normalizeFuzzyMatrix(
+  matrix: TriangularFuzzyNumber[][],
+  criteria: Criteria[]
+): TriangularFuzzyNumber[][] {
+  const minLower = criteria.map((_, j) =>
+    matrix.reduce((min, row) => Math.min(min, row[j][0]), Infinity)
+  );
+  const maxUpper = criteria.map((_, j) =>
+    matrix.reduce((max, row) => Math.max(max, row[j][2]), -Infinity)
+  );
+
+  return matrix.map((row) =>
+    row.map(([l, m, u], j): TriangularFuzzyNumber =>
+      criteria[j].type === "benefit"
+        ? [minLower[j] / u, minLower[j] / m, minLower[j] / l]
+        : [l / maxUpper[j], m / maxUpper[j], u / maxUpper[j]]
+    )
+  );
+}
+
+/**
+ * Turn a triangular fuzzy number into a crisp value
+ * @param tfn - Triangular fuzzy number (l, m, u)
+ * @param method - Centroid (l + m + u) / 3 or graded mean (l + 4m + u) / 6
+ * @returns Crisp value
+ */
+function defuzzify(
+  [l, m, u]: TriangularFuzzyNumber,
+  method: DefuzzificationMethod
+): number {
+  return method === "centroid" ? (l + m + u) / 3 : (l + 4 * m + u) / 6;
+}
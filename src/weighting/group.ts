@@ -0,0 +1,272 @@
+/**
+ * Group decision making: MEREC weights from several evaluators' decision matrices
+ */
+
+import {
+  CriteriaSpec,
+  DiagnosticReporter,
+  GroupAggregationMean,
+  GroupAggregationStage,
+  GroupMerecOptions,
+  GroupMerecResult,
+  MatrixValue,
+} from "../types";
+import { createDiagnosticCollector } from "../diagnostics";
+import { MerecInputError, MerecValueError } from "../errors";
+import { calculateMerecDetailed, createMatrixInput } from "../merec";
+import {
+  calculateFinalWeights,
+  validateFinalWeights,
+} from "../calculation/mer06-bobotAkhir";
+import { isMissingValue } from "../calculation/mer01-matriksKeputusan";
+
+/**
+ * Calculate group criteria weights from one decision matrix per evaluator
+ * @param matrices - Decision matrices of every evaluator (same alternatives and criteria)
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional MEREC options plus evaluator weights, aggregation stage and mean
+ * @returns Group weights, individual weights and the consensus degree
+ */
+export function calculateGroupMerecWeights(
+  matrices: MatrixValue[][][],
+  criteriaTypes: CriteriaSpec[],
+  options: GroupMerecOptions = {}
+): GroupMerecResult {
+  const stage: GroupAggregationStage = options.stage ?? "matrix";
+  const mean: GroupAggregationMean = options.mean ?? "arithmetic";
+
+  if (stage !== "matrix" && stage !== "weights") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Tahap agregasi kelompok tidak dikenal: ${stage}`
+    );
+  }
+
+  if (mean !== "arithmetic" && mean !== "geometric") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Jenis rata-rata agregasi tidak dikenal: ${mean}`
+    );
+  }
+
+  if (!matrices || matrices.length === 0) {
+    throw new MerecInputError(
+      "EMPTY_MATRIX",
+      "Daftar matriks evaluator tidak boleh kosong"
+    );
+  }
+
+  // Validasi setiap matriks dan kesamaan jumlah alternatif
+  matrices.forEach((matrix, k) => {
+    createMatrixInput(matrix, criteriaTypes);
+
+    if (matrix.length !== matrices[0].length) {
+      throw new MerecInputError(
+        "ROW_COUNT_MISMATCH",
+        `Matriks evaluator ${k + 1} harus memiliki ${matrices[0].length} alternatif`,
+        { expected: matrices[0].length, actual: matrix.length }
+      );
+    }
+  });
+
+  const evaluatorWeights = resolveEvaluatorWeights(
+    options.evaluatorWeights,
+    matrices.length
+  );
+  const { warnings, report } = createDiagnosticCollector(options.logger);
+  const merecOptions = { ...options, logger: report };
+
+  let aggregatedMatrix: MatrixValue[][] | undefined;
+  let individualWeights: (number[] | null)[];
+  let weights: number[];
+
+  if (stage === "matrix") {
+    aggregatedMatrix = aggregateMatrices(matrices, evaluatorWeights, mean);
+    weights = calculateMerecDetailed(
+      aggregatedMatrix,
+      criteriaTypes,
+      merecOptions
+    ).weights;
+
+    // Bobot evaluator hanya untuk konsensus, jadi matriks tidak lengkap yang akan
+    // ditolak oleh kebijakan "reject" dilewati; kebijakan lain menanganinya seperti biasa
+    const skipIncomplete =
+      (options.missingValuePolicy ?? "reject") === "reject";
+    individualWeights = matrices.map((matrix) =>
+      skipIncomplete && matrix.some((row) => row.some(isMissingValue))
+        ? null
+        : calculateMerecDetailed(matrix, criteriaTypes, merecOptions).weights
+    );
+  } else {
+    const evaluatorMerecWeights = matrices.map(
+      (matrix) =>
+        calculateMerecDetailed(matrix, criteriaTypes, merecOptions).weights
+    );
+    weights = aggregateWeights(
+      evaluatorMerecWeights,
+      evaluatorWeights,
+      mean,
+      report
+    );
+    individualWeights = evaluatorMerecWeights;
+  }
+
+  // Kesepakatan evaluator k: 1 - ½ Σ_j |w^k_j - w_j| (1 - jarak variasi total)
+  const evaluatorConsensus = individualWeights.map((w_k) =>
+    w_k === null
+      ? null
+      : 1 -
+        w_k.reduce((sum, w_kj, j) => sum + Math.abs(w_kj - weights[j]), 0) / 2
+  );
+
+  // Rata-rata tertimbang atas evaluator yang memiliki bobot sendiri
+  let consensusTotal = 0;
+  let consensusWeight = 0;
+  evaluatorConsensus.forEach((c_k, k) => {
+    if (c_k !== null) {
+      consensusTotal += evaluatorWeights[k] * c_k;
+      consensusWeight += evaluatorWeights[k];
+    }
+  });
+  const consensusDegree =
+    consensusWeight > 0 ? consensusTotal / consensusWeight : null;
+
+  return {
+    stage,
+    mean,
+    evaluatorWeights,
+    aggregatedMatrix,
+    individualWeights,
+    weights,
+    evaluatorConsensus,
+    consensusDegree,
+    warnings,
+  };
+}
+
+/**
+ * Validate evaluator weights and normalize them to sum 1
+ * @param evaluatorWeights - Importance of every evaluator (optional)
+ * @param count - Number of evaluators
+ * @returns Normalized evaluator weights λ_k
+ */
+function resolveEvaluatorWeights(
+  evaluatorWeights: number[] | undefined,
+  count: number
+): number[] {
+  if (evaluatorWeights === undefined) {
+    return new Array(count).fill(1 / count);
+  }
+
+  if (evaluatorWeights.length !== count) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Jumlah bobot evaluator (${evaluatorWeights.length}) harus sama dengan jumlah matriks (${count})`,
+      { expected: count, actual: evaluatorWeights.length }
+    );
+  }
+
+  evaluatorWeights.forEach((lambda, k) => {
+    if (typeof lambda !== "number" || !isFinite(lambda) || lambda < 0) {
+      throw new MerecInputError(
+        "INVALID_OPTION",
+        `Bobot evaluator ${k + 1} harus berupa bilangan >= 0: ${lambda}`,
+        { value: lambda }
+      );
+    }
+  });
+
+  const total = evaluatorWeights.reduce((sum, lambda) => sum + lambda, 0);
+
+  if (total === 0) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Minimal satu evaluator harus memiliki bobot lebih dari 0"
+    );
+  }
+
+  return evaluatorWeights.map((lambda) => lambda / total);
+}
+
+/**
+ * Aggregate the evaluators' matrices cell by cell with a weighted mean.
+ * Missing cells are left out and the remaining evaluator weights renormalized;
+ * a cell missing for every evaluator stays missing for MER-01.
+ * @param matrices - Validated decision matrices
+ * @param evaluatorWeights - Normalized evaluator weights
+ * @param mean - Arithmetic Σ λ_k x^k_ij or geometric Π (x^k_ij)^λ_k
+ * @returns Aggregated decision matrix
+ */
+function aggregateMatrices(
+  matrices: MatrixValue[][][],
+  evaluatorWeights: number[],
+  mean: GroupAggregationMean
+): MatrixValue[][] {
+  return matrices[0].map((row, i) =>
+    row.map((_, j) => {
+      let total = 0;
+      let weightSum = 0;
+
+      matrices.forEach((matrix, k) => {
+        const x = matrix[i][j];
+        if (x === null || Number.isNaN(x) || evaluatorWeights[k] === 0) {
+          return;
+        }
+
+        if (mean === "geometric" && x <= 0) {
+          throw new MerecValueError(
+            "NON_POSITIVE_VALUE",
+            `Rata-rata geometrik membutuhkan nilai positif: evaluator ${k + 1}, baris ${i + 1}, kolom ${j + 1} bernilai ${x}`,
+            { row: i, column: j, value: x }
+          );
+        }
+
+        total +=
+          mean === "arithmetic"
+            ? evaluatorWeights[k] * x
+            : evaluatorWeights[k] * Math.log(x);
+        weightSum += evaluatorWeights[k];
+      });
+
+      if (weightSum === 0) {
+        return null;
+      }
+
+      return mean === "arithmetic"
+        ? total / weightSum
+        : Math.exp(total / weightSum);
+    })
+  );
+}
+
+/**
+ * Aggregate the evaluators' weight vectors with a weighted mean
+ * @param individualWeights - MEREC weights of every evaluator
+ * @param evaluatorWeights - Normalized evaluator weights
+ * @param mean - Arithmetic Σ λ_k w^k_j or normalized geometric Π (w^k_j)^λ_k
+ * @param report - Diagnostic reporter
+ * @returns Group weights that sum to 1.0
+ */
+function aggregateWeights(
+  individualWeights: number[][],
+  evaluatorWeights: number[],
+  mean: GroupAggregationMean,
+  report: DiagnosticReporter
+): number[] {
+  const scores = individualWeights[0].map((_, j) =>
+    mean === "arithmetic"
+      ? individualWeights.reduce(
+          (sum, w_k, k) => sum + evaluatorWeights[k] * w_k[j],
+          0
+        )
+      : individualWeights.reduce(
+          (product, w_k, k) => product * w_k[j] ** evaluatorWeights[k],
+          1
+        )
+  );
+
+  const weights = calculateFinalWeights(scores, report);
+  validateFinalWeights(weights);
+
+  return weights;
+}
@@ -0,0 +1,233 @@
+/**
+ * Shared input handling for objective weighting methods compared with MEREC
+ */
+
+import {
+  Alternative,
+  Criteria,
+  CriteriaSpec,
+  DiagnosticReporter,
+  MatrixValue,
+  MerecDiagnostic,
+  MerecOptions,
+  WeightConstraints,
+} from "../types";
+import { createDiagnosticCollector } from "../diagnostics";
+import { MerecInputError } from "../errors";
+import { createMatrixInput, prepareDecisionMatrix } from "../merec";
+import { calculateTargetDeviation } from "../calculation/mer02-normalisasi";
+import {
+  calculateFinalWeights,
+  summarizeCriteriaWeights,
+  validateFinalWeights,
+} from "../calculation/mer06-bobotAkhir";
+import { applyWeightConstraints } from "./constraints";
+
+/**
+ * Decision matrix ready for an objective weighting method
+ */
+export interface WeightingInput {
+  /** Alternatives in row order (without dropped alternatives) */
+  alternatives: Alternative[];
+  /** Criteria in column order */
+  criteria: Criteria[];
+  /** Decision matrix after MER-01; target columns hold the distance to the target */
+  matrix: number[][];
+  /** Direction of every column (target columns become "cost" distances) */
+  types: ("benefit" | "cost")[];
+  /** Weight constraints applied by scoresToWeights (optional) */
+  weightConstraints?: WeightConstraints;
+  /** Diagnostic reporter collecting into `warnings` */
+  report: DiagnosticReporter;
+  /** Diagnostics emitted while preparing the decision matrix */
+  warnings: MerecDiagnostic[];
+}
+
+/**
+ * Validate matrix input and run MER-01 (missing values, positivity conversion)
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - MEREC options used by MER-01
+ * @returns Weighting input
+ */
+export function resolveWeightingInput(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): WeightingInput {
+  // Sel hilang tidak dapat digunakan di luar rata-rata MEREC, sehingga kebijakan "skip" ditolak
+  if (options.missingValuePolicy === "skip") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      "Kebijakan nilai hilang 'skip' hanya dapat digunakan untuk bobot MEREC"
+    );
+  }
+
+  // Metode lain memiliki normalisasinya sendiri, sehingga skema MER-02 tidak berlaku
+  if (
+    options.normalization !== undefined &&
+    options.normalization !== "merec"
+  ) {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Skema normalisasi '${options.normalization}' hanya dapat digunakan untuk bobot MEREC`
+    );
+  }
+
+  const input = createMatrixInput(matrix, criteriaTypes);
+  const { warnings, report: collect } = createDiagnosticCollector(
+    options.logger
+  );
+  const { alternatives, decisionMatrix, report } = prepareDecisionMatrix(
+    input.alternatives,
+    input.criteria,
+    options,
+    collect
+  );
+
+  return {
+    alternatives,
+    criteria: input.criteria,
+    ...toDirectedMatrix(decisionMatrix, input.criteria),
+    weightConstraints: options.weightConstraints,
+    report,
+    warnings,
+  };
+}
+
+/**
+ * Replace target columns by their distance to the target, which is a cost
+ * @param decisionMatrix - Decision matrix after MER-01 (m x n)
+ * @param criteria - Criteria in column order
+ * @returns Matrix where every column is either benefit or cost, and its directions
+ */
+export function toDirectedMatrix(
+  decisionMatrix: number[][],
+  criteria: Criteria[]
+): { matrix: number[][]; types: ("benefit" | "cost")[] } {
+  return {
+    matrix: decisionMatrix.map((row) =>
+      row.map((value, j) =>
+        criteria[j].type === "target"
+          ? calculateTargetDeviation(value, criteria[j])
+          : value
+      )
+    ),
+    types: criteria.map((c) => (c.type === "benefit" ? "benefit" : "cost")),
+  };
+}
+
+/**
+ * Min-max normalization: (x - min) / (max - min) for benefit, (max - x) / (max - min)
+ * for cost (0 for a constant column)
+ * @param matrix - Directed matrix (m x n)
+ * @param types - Direction of every column
+ * @returns Normalized matrix (m x n) with values in [0, 1], 1 = best
+ */
+export function normalizeMinMax(
+  matrix: number[][],
+  types: ("benefit" | "cost")[]
+): number[][] {
+  const minValues = types.map(() => Infinity);
+  const maxValues = types.map(() => -Infinity);
+
+  for (const row of matrix) {
+    row.forEach((value, j) => {
+      minValues[j] = Math.min(minValues[j], value);
+      maxValues[j] = Math.max(maxValues[j], value);
+    });
+  }
+
+  return matrix.map((row) =>
+    row.map((value, j) => {
+      const range = maxValues[j] - minValues[j];
+      if (range === 0) {
+        return 0;
+      }
+      return types[j] === "benefit"
+        ? (value - minValues[j]) / range
+        : (maxValues[j] - value) / range;
+    })
+  );
+}
+
+/**
+ * Population standard deviation of every column
+ * @param matrix - Matrix (m x n)
+ * @returns Standard deviation σ_j of each column
+ */
+export function calculateColumnStandardDeviations(
+  matrix: number[][]
+): number[] {
+  const m = matrix.length;
+  const n = matrix[0]?.length || 0;
+  const deviations: number[] = [];
+
+  for (let j = 0; j < n; j++) {
+    const mean = matrix.reduce((sum, row) => sum + row[j], 0) / m;
+    const variance =
+      matrix.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / m;
+    deviations.push(Math.sqrt(variance));
+  }
+
+  return deviations;
+}
+
+/**
+ * Turn per-criterion scores into weights w_j = s_j / Σ_k s_k (MER-06), falling back
+ * to equal weights when every score is 0, validate them and apply the weight
+ * constraints of the input
+ * @param scores - Non-negative score of each criterion
+ * @param input - Weighting input (criteria, weight constraints and reporter)
+ * @returns Criteria weights [0-1] that sum to 1.0
+ */
+export function scoresToWeights(
+  scores: number[],
+  input: Pick<WeightingInput, "criteria" | "weightConstraints" | "report">
+): number[] {
+  const weights = calculateFinalWeights(scores, input.report);
+  validateFinalWeights(weights);
+
+  const constrained = applyWeightConstraints(
+    weights,
+    input.weightConstraints,
+    input.criteria,
+    input.report
+  );
+  return constrained?.weights ?? weights;
+}
+
+/**
+ * Rank criteria by weight with the ranking of summarizeCriteriaWeights (MER-06),
+ * giving criteria with equal weights their average rank
+ * @param weights - Criteria weights
+ * @returns Rank of each criterion in column order (1 = most important)
+ */
+export function rankCriteria(weights: number[]): number[] {
+  // ID sementara berupa indeks kolom agar peringkat dapat dipetakan kembali
+  const summary = summarizeCriteriaWeights(
+    weights,
+    weights.map((_, j) => ({ id: String(j) }))
+  );
+
+  const ranks: number[] = new Array(weights.length);
+  let start = 0;
+  while (start < summary.length) {
+    let end = start + 1;
+    while (
+      end < summary.length &&
+      summary[end].weight === summary[start].weight
+    ) {
+      end++;
+    }
+
+    // Kriteria berbobot sama mendapat rata-rata peringkat kelompoknya
+    const averageRank = (summary[start].ranking + summary[end - 1].ranking) / 2;
+    for (let k = start; k < end; k++) {
+      ranks[Number(summary[k].id)] = averageRank;
+    }
+    start = end;
+  }
+
+  return ranks;
+}
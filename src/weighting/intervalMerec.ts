@@ -0,0 +1,206 @@
+/**
+ * Interval-valued MEREC for measurements with a known tolerance [lower, upper]
+ */
+
+import {
+  Criteria,
+  CriteriaSpec,
+  Interval,
+  IntervalMerecOptions,
+  IntervalMerecResult,
+} from "../types";
+import { createDiagnosticCollector } from "../diagnostics";
+import { MerecValueError } from "../errors";
+import {
+  calculateFinalWeights,
+  validateFinalWeights,
+} from "../calculation/mer06-bobotAkhir";
+import { createUncertainCriteria, divideWeight } from "./uncertain";
+
+/**
+ * Calculate interval criteria weights using MEREC on interval measurements
+ * @param matrix - Interval decision matrix where every cell is [lower, upper]
+ * @param criteriaTypes - Array of criteria types ("benefit" or "cost")
+ * @param options - Optional calculation options (logger)
+ * @returns Interval intermediate steps, interval weights that enclose the MEREC weights
+ * of every matrix within the intervals, and a point estimate
+ */
+export function calculateIntervalMerecWeights(
+  matrix: Interval[][],
+  criteriaTypes: CriteriaSpec[],
+  options: IntervalMerecOptions = {}
+): IntervalMerecResult {
+  const criteria = createUncertainCriteria(
+    matrix,
+    criteriaTypes,
+    "MEREC interval"
+  );
+  validateIntervalMatrix(matrix);
+  const { warnings, report } = createDiagnosticCollector(options.logger);
+
+  const m = matrix.length; // jumlah alternatif
+  const n = criteria.length; // jumlah kriteria
+
+  // MER-02: Normalisasi interval
+  const normalizedMatrix = normalizeIntervalMatrix(matrix, criteria);
+
+  // S_i = ln(1 + Σ_j a_ij / n) dan S'_ij = ln(1 + Σ_k≠j a_ik / (n - 1)), dengan a_ij = |ln nx_ij|
+  const overall = (sum: number) => Math.log(1 + sum / n);
+  const removal = (rest: number) => (n > 1 ? Math.log(1 + rest / (n - 1)) : 0);
+
+  const overallPerformances: Interval[] = [];
+  const removalPerformances: Interval[][] = [];
+  const deviationLower = new Array(n).fill(0);
+  const deviationUpper = new Array(n).fill(0);
+
+  for (let i = 0; i < m; i++) {
+    // a_ij = -ln nx_ij turun terhadap nx_ij, sehingga batasnya tertukar
+    const absLogs = normalizedMatrix[i].map(([l, u]): Interval => [
+      -Math.log(u),
+      -Math.log(l),
+    ]);
+    const sumLower = absLogs.reduce((sum, a) => sum + a[0], 0);
+    const sumUpper = absLogs.reduce((sum, a) => sum + a[1], 0);
+
+    // MER-03
+    overallPerformances.push([overall(sumLower), overall(sumUpper)]);
+
+    const row: Interval[] = [];
+    for (let j = 0; j < n; j++) {
+      const [aLower, aUpper] = absLogs[j];
+      const restLower = Math.max(0, sumLower - aLower);
+      const restUpper = Math.max(0, sumUpper - aUpper);
+
+      // MER-04
+      row.push([removal(restLower), removal(restUpper)]);
+
+      // MER-05: S_i - S'_ij naik terhadap a_ij dan turun terhadap jumlah suku lain,
+      // sehingga batasnya dicapai pada sudut interval yang berlawanan
+      const gLower = overall(aLower + restUpper) - removal(restUpper);
+      const gUpper = overall(aUpper + restLower) - removal(restLower);
+
+      if (gLower >= 0) {
+        deviationLower[j] += gLower;
+        deviationUpper[j] += gUpper;
+      } else if (gUpper <= 0) {
+        deviationLower[j] += -gUpper;
+        deviationUpper[j] += -gLower;
+      } else {
+        deviationUpper[j] += Math.max(-gLower, gUpper);
+      }
+    }
+    removalPerformances.push(row);
+  }
+
+  const absoluteDeviations: Interval[] = criteria.map((_, j) => [
+    deviationLower[j],
+    deviationUpper[j],
+  ]);
+
+  // MER-06: w^L_j = E^L_j / (E^L_j + Σ_k≠j E^U_k), w^U_j = E^U_j / (E^U_j + Σ_k≠j E^L_k)
+  const totalLower = absoluteDeviations.reduce((sum, e) => sum + e[0], 0);
+  const totalUpper = absoluteDeviations.reduce((sum, e) => sum + e[1], 0);
+
+  let intervalWeights: Interval[] = absoluteDeviations.map(([l, u]) => [
+    divideWeight(l, l + totalUpper - u),
+    divideWeight(u, u + totalLower - l),
+  ]);
+
+  // Estimasi titik: titik tengah bobot interval yang dinormalisasi
+  const weights = calculateFinalWeights(
+    intervalWeights.map(([l, u]) => (l + u) / 2),
+    report
+  );
+  validateFinalWeights(weights);
+
+  // Tanpa deviasi sama sekali, bobot interval mengikuti bobot sama rata MER-06
+  if (totalUpper === 0) {
+    intervalWeights = weights.map((w) => [w, w]);
+  }
+
+  return {
+    criteria,
+    normalizedMatrix,
+    overallPerformances,
+    removalPerformances,
+    absoluteDeviations,
+    intervalWeights,
+    weights,
+    warnings,
+  };
+}
+
+/**
+ * Validate that every cell is a positive interval
+ * @param matrix - Interval decision matrix with validated shape
+ */
+function validateIntervalMatrix(matrix: Interval[][]): void {
+  matrix.forEach((row, i) => {
+    row.forEach((cell, j) => {
+      if (
+        !Array.isArray(cell) ||
+        cell.length !== 2 ||
+        !cell.every((v) => typeof v === "number" && isFinite(v))
+      ) {
+        throw new MerecValueError(
+          "INVALID_INTERVAL",
+          `Nilai pada baris ${i + 1}, kolom ${j + 1} harus berupa interval [lower, upper]`,
+          { row: i, column: j }
+        );
+      }
+
+      const [lower, upper] = cell;
+
+      if (lower > upper) {
+        throw new MerecValueError(
+          "INVALID_INTERVAL",
+          `Interval pada baris ${i + 1}, kolom ${j + 1} harus memenuhi lower <= upper: [${lower}, ${upper}]`,
+          { row: i, column: j }
+        );
+      }
+
+      if (lower <= 0) {
+        throw new MerecValueError(
+          "NON_POSITIVE_VALUE",
+          `Interval pada baris ${i + 1}, kolom ${j + 1} harus positif: [${lower}, ${upper}]`,
+          { row: i, column: j, value: lower }
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Interval MEREC normalization that encloses nx_ij of every matrix within the
+ * intervals: benefit [min_k x^L_kj / x^U_ij, min_k x^U_kj / x^L_ij], cost
+ * [x^L_ij / max_k x^U_kj, x^U_ij / max_k x^L_kj], both bounded by 1
+ * @param matrix - Validated interval decision matrix
+ * @param criteria - Criteria in column order
+ * @returns Interval normalized matrix with both bounds in (0, 1]
+ */
+function normalizeIntervalMatrix(
+  matrix: Interval[][],
+  criteria: Criteria[]
+): Interval[][] {
+  const minLower = criteria.map((_, j) =>
+    matrix.reduce((min, row) => Math.min(min, row[j][0]), Infinity)
+  );
+  const minUpper = criteria.map((_, j) =>
+    matrix.reduce((min, row) => Math.min(min, row[j][1]), Infinity)
+  );
+  const maxLower = criteria.map((_, j) =>
+    matrix.reduce((max, row) => Math.max(max, row[j][0]), -Infinity)
+  );
+  const maxUpper = criteria.map((_, j) =>
+    matrix.reduce((max, row) => Math.max(max, row[j][1]), -Infinity)
+  );
+
+  // min_k x_kj <= x_ij <= max_k x_kj, sehingga nx_ij tidak pernah melebihi 1
+  return matrix.map((row) =>
+    row.map(([lower, upper], j): Interval =>
+      criteria[j].type === "benefit"
+        ? [minLower[j] / upper, Math.min(1, minUpper[j] / lower)]
+        : [lower / maxUpper[j], Math.min(1, upper / maxLower[j])]
+    )
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Standard deviation objective weighting method
+ */
+
+import { CriteriaSpec, MatrixValue, MerecOptions } from "../types";
+import {
+  calculateColumnStandardDeviations,
+  normalizeMinMax,
+  resolveWeightingInput,
+  scoresToWeights,
+} from "./input";
+
+/**
+ * Calculate criteria weights using the standard deviation method
+ * @param matrix - Decision matrix where rows = alternatives, columns = criteria
+ * @param criteriaTypes - Array of criteria types ("benefit", "cost" or a target specification)
+ * @param options - Optional calculation options (logger, MER-01 value handling and weight constraints)
+ * @returns Array of criteria weights [0-1] that sum to 1.0
+ */
+export function calculateStandardDeviationWeights(
+  matrix: MatrixValue[][],
+  criteriaTypes: CriteriaSpec[],
+  options: MerecOptions = {}
+): number[] {
+  const input = resolveWeightingInput(matrix, criteriaTypes, options);
+  const { matrix: x, types } = input;
+
+  // w_j = σ_j / Σ_k σ_k pada matriks yang dinormalisasi min-max
+  const deviations = calculateColumnStandardDeviations(
+    normalizeMinMax(x, types)
+  );
+
+  return scoresToWeights(deviations, input);
+}
@@ -0,0 +1,68 @@
+/**
+ * Synthesis of subjective (e.g. AHP) and objective (e.g. MEREC) criteria weights
+ */
+
+import { WeightSynthesis, WeightSynthesisOptions } from "../types";
+import { MerecInputError } from "../errors";
+import {
+  calculateFinalWeights,
+  validateFinalWeights,
+} from "../calculation/mer06-bobotAkhir";
+import { resolveUnitIntervalOption } from "../ranking/input";
+
+/**
+ * Combine subjective and objective weights of the same criteria
+ * @param subjectiveWeights - Subjective weights (e.g. calculateAhpWeights(...).weights)
+ * @param objectiveWeights - Objective weights (e.g. output of calculateMerecWeights)
+ * @param options - Optional synthesis options (additive or multiplicative, share α)
+ * @returns Array of combined weights [0-1] that sum to 1.0
+ */
+export function combineWeights(
+  subjectiveWeights: number[],
+  objectiveWeights: number[],
+  options: WeightSynthesisOptions = {}
+): number[] {
+  const synthesis: WeightSynthesis = options.synthesis ?? "additive";
+  const alpha = resolveUnitIntervalOption(
+    options.alpha,
+    0.5,
+    "Porsi bobot subjektif"
+  );
+
+  if (synthesis !== "additive" && synthesis !== "multiplicative") {
+    throw new MerecInputError(
+      "INVALID_OPTION",
+      `Metode sintesis bobot tidak dikenal: ${synthesis}`
+    );
+  }
+
+  if (subjectiveWeights.length !== objectiveWeights.length) {
+    throw new MerecInputError(
+      "COLUMN_COUNT_MISMATCH",
+      `Jumlah bobot subjektif (${subjectiveWeights.length}) harus sama dengan jumlah bobot objektif (${objectiveWeights.length})`,
+      {
+        expected: objectiveWeights.length,
+        actual: subjectiveWeights.length,
+      }
+    );
+  }
+
+  validateFinalWeights(subjectiveWeights);
+  validateFinalWeights(objectiveWeights);
+
+  // Aditif: w_j = α s_j + (1 - α) o_j
+  if (synthesis === "additive") {
+    const weights = subjectiveWeights.map(
+      (s_j, j) => alpha * s_j + (1 - alpha) * objectiveWeights[j]
+    );
+    validateFinalWeights(weights);
+    return weights;
+  }
+
+  // Multiplikatif: w_j = s_j o_j / Σ_k s_k o_k (bobot sama rata jika tidak ada irisan)
+  const weights = calculateFinalWeights(
+    subjectiveWeights.map((s_j, j) => s_j * objectiveWeights[j])
+  );
+  validateFinalWeights(weights);
+  return weights;
+}
@@ -0,0 +1,114 @@
+/**
+ * Shared helpers for MEREC on uncertain (fuzzy or interval) ratings
+ */
+
+import { Criteria, CriteriaSpec, DiagnosticReporter } from "../types";
+import { MerecInputError } from "../errors";
+import {
+  DenseMatrix,
+  calculateAbsoluteDeviationsDense,
+  calculateOverallPerformanceDense,
+  calculateRemovalPerformanceDense,
+  calculateRowLogSums,
+  toDenseMatrix,
+} from "../calculation/merecCore";
+
+/**
+ * Crisp MER-03..MER-05 results of one bound of an uncertain normalized matrix
+ */
+export interface ComponentResult {
+  /** MER-03: Overall performance S_i */
+  performances: Float64Array;
+  /** MER-04: Removal performance S'_ij */
+  removal: DenseMatrix;
+  /** MER-05: Absolute deviations E_j */
+  deviations: Float64Array;
+}
+
+/**
+ * Validate the shape of an uncertain matrix and create criteria for its columns
+ * @param matrix - Decision matrix of fuzzy numbers or intervals
+ * @param criteriaTypes - Array of criteria types ("benefit" or "cost")
+ * @param label - Name of the MEREC variant used in error messages
+ * @returns Criteria in column order
+ */
+export function createUncertainCriteria(
+  matrix: unknown[][],
+  criteriaTypes: CriteriaSpec[],
+  label: string
+): Criteria[] {
+  if (!matrix || matrix.length === 0) {
+    throw new MerecInputError("EMPTY_MATRIX", "Matrix tidak boleh kosong");
+  }
+
+  if (!criteriaTypes || criteriaTypes.length === 0) {
+    throw new MerecInputError(
+      "EMPTY_CRITERIA",
+      "Tipe kriteria tidak boleh kosong"
+    );
+  }
+
+  const n = criteriaTypes.length; // jumlah kriteria
+
+  const criteria: Criteria[] = criteriaTypes.map((spec, j) => {
+    const type = typeof spec === "string" ? spec : spec.type;
+
+    // Jarak ke target tidak terdefinisi untuk nilai yang tidak pasti
+    if (type !== "benefit" && type !== "cost") {
+      throw new MerecInputError(
+        "INVALID_CRITERIA",
+        `Tipe kriteria '${type}' tidak didukung pada ${label}`,
+        { column: j, id: `C${j + 1}` }
+      );
+    }
+
+    return { id: `C${j + 1}`, name: `Criteria ${j + 1}`, type };
+  });
+
+  matrix.forEach((row, i) => {
+    if (!row || row.length !== n) {
+      throw new MerecInputError(
+        "ROW_LENGTH_MISMATCH",
+        `Baris ${i + 1} harus memiliki ${n} kolom`,
+        { row: i, expected: n, actual: row?.length ?? 0 }
+      );
+    }
+  });
+
+  return criteria;
+}
+
+/**
+ * Run the crisp MER-03..MER-05 core on one bound of the normalized matrix
+ * @param normalized - Crisp bound of the normalized matrix
+ * @param report - Diagnostic reporter
+ * @returns Overall performances, removal performances and absolute deviations
+ */
+export function calculateComponent(
+  normalized: number[][],
+  report: DiagnosticReporter
+): ComponentResult {
+  const logSums = calculateRowLogSums(toDenseMatrix(normalized), 1e-10, report);
+  const performances = calculateOverallPerformanceDense(logSums, report);
+  const removal = calculateRemovalPerformanceDense(logSums, report);
+  const deviations = calculateAbsoluteDeviationsDense(
+    performances,
+    removal,
+    report
+  );
+
+  return { performances, removal, deviations };
+}
+
+/**
+ * Divide one bound of an uncertain weight, bounded by 1
+ * @param deviation - Bound of E_j
+ * @param total - Total of the opposite bounds
+ * @returns Weight bound in [0, 1]
+ */
+export function divideWeight(deviation: number, total: number): number {
+  if (total === 0) {
+    return deviation > 0 ? 1 : 0;
+  }
+  return Math.min(1, deviation / total);
+}